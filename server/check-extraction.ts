@@ -0,0 +1,65 @@
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { extractComponentsFromFigmaData, generateReactComponentCode, normalizeFigmaDocument } from "./utils/figma";
+
+// Checks component extraction and code generation against recorded files and uploads in fixtures/
+const readFixture = (...segments: string[]) => JSON.parse(fs.readFileSync(path.resolve("fixtures", ...segments), "utf8"));
+const frame = readFixture("extraction", "card-frame.json");
+
+async function extract(json: any) {
+  return extractComponentsFromFigmaData(normalizeFigmaDocument(json));
+}
+
+async function run() {
+  // Full files yield their components only
+  const file = await extract(readFixture("figma", "api", "files", "demo.json"));
+  assert.deepStrictEqual(file.map(component => component.name), ["Button"]);
+
+  // A bare frame upload or a node-id fetch of a frame is generated as a component itself
+  const bare = await extract(frame);
+  assert.deepStrictEqual(bare.map(component => [component.id, component.type]), [["12:345", "FRAME"]]);
+  assert.strictEqual(bare[0].styles.backgroundColor, "#ffffff");
+  assert.strictEqual(bare[0].children.length, 1);
+
+  const nodes = await extract({ name: "Cards", nodes: { "12:345": { document: frame, components: {}, styles: {} } } });
+  assert.deepStrictEqual(nodes.map(component => component.id), ["12:345"]);
+
+  // A selected frame holding components yields those components
+  const withComponent = await extract({
+    ...frame,
+    children: [{ id: "12:400", name: "Badge", type: "COMPONENT", children: [] }]
+  });
+  assert.deepStrictEqual(withComponent.map(component => component.name), ["Badge"]);
+
+  // Layer opacity and clipped content carry over to the generated CSS
+  const [clipped] = await extract({ ...frame, opacity: 0.5, clipsContent: true });
+  assert.strictEqual(clipped.styles.opacity, 0.5);
+  assert.strictEqual(clipped.styles.overflow, "hidden");
+
+  // Same-named components on different pages get distinct imports and files
+  const pages = await extract({
+    document: {
+      id: "0:0", name: "Document", type: "DOCUMENT", children: [
+        { id: "0:1", name: "Web", type: "CANVAS", children: [
+          { id: "1:1", name: "Button", type: "COMPONENT", children: [] },
+          { id: "1:2", name: "Toolbar", type: "COMPONENT", children: [
+            { id: "1:3", name: "Web button", type: "INSTANCE", componentId: "1:1", children: [] },
+            { id: "1:4", name: "Mobile button", type: "INSTANCE", componentId: "2:1", children: [] }
+          ] }
+        ] },
+        { id: "0:2", name: "Mobile", type: "CANVAS", children: [{ id: "2:1", name: "Button", type: "COMPONENT", children: [] }] }
+      ]
+    }
+  });
+  const generated = pages.map(component => generateReactComponentCode(component, {}, { components: pages }));
+  assert.deepStrictEqual(generated.map(code => code.fileName), ["Button.tsx", "Toolbar.tsx", "Button2.tsx"]);
+  assert.match(generated[1].react, /import Button from "\.\/Button";\nimport Button2 from "\.\/Button2";/);
+
+  console.log("Extraction checks passed");
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import type { FigmaVersion, VersionComparison } from "@shared/schema";
+import { buildChangelog } from "./utils/changelog";
+import { extractComponentsFromFigmaData, extractDesignTokens } from "./utils/figma";
+import { compareVersions, readComparisonData } from "./utils/version-diff";
+
+// Checks version comparisons, their semver classification and the changelog built from them,
+// using edited copies of the recorded demo file in fixtures/figma
+const demo = JSON.parse(fs.readFileSync(path.resolve("fixtures", "figma", "api", "files", "demo.json"), "utf8"));
+
+function editDemo(edit: (button: any, page: any) => void) {
+  const file = structuredClone(demo);
+  const page = file.document.children[0];
+  edit(page.children[0], page);
+  return file;
+}
+
+async function toVersion(id: number, file: any, designTokens: any = extractDesignTokens(file)): Promise<FigmaVersion> {
+  return { id, projectId: 1, components: await extractComponentsFromFigmaData(file), designTokens } as FigmaVersion;
+}
+
+function toComparison(comparisonData: any): VersionComparison {
+  return { id: 1, projectId: 1, fromVersionId: 1, toVersionId: 2, comparisonData, createdAt: new Date(0) } as VersionComparison;
+}
+
+async function run() {
+  const base = await toVersion(1, demo);
+
+  const unchanged = compareVersions(base, await toVersion(2, demo));
+  assert.strictEqual(unchanged.summary.totalChanges, 0);
+  assert.strictEqual(unchanged.summary.suggestedBump, "none");
+
+  // A restyled fill and label are visual only
+  const restyled = compareVersions(base, await toVersion(2, editDemo(button => {
+    button.fills[0].color = { r: 0, g: 0, b: 0, a: 1 };
+    button.children[0].fills[0].color = { r: 1, g: 0, b: 0, a: 1 };
+  })));
+  const [button] = restyled.changes.modified;
+  assert.deepStrictEqual(button.styleChanges.map(change => change.property), ["backgroundColor", "Label.color"]);
+  assert.strictEqual(button.impact, "patch");
+  assert.strictEqual(restyled.summary.suggestedBump, "patch");
+
+  // Added and removed layers are reported even without style changes
+  const relayered = compareVersions(base, await toVersion(2, editDemo(button => {
+    button.children = [{ id: "1:9", name: "Icon", type: "VECTOR" }];
+  })));
+  assert.deepStrictEqual(relayered.changes.modified[0].layers.added.map(layer => layer.name), ["Icon"]);
+  assert.deepStrictEqual(relayered.changes.modified[0].layers.removed.map(layer => layer.name), ["Label"]);
+
+  // Renames and removals break imports, additions extend the API
+  const renamed = compareVersions(base, await toVersion(2, editDemo(button => { button.name = "Action"; })));
+  assert.strictEqual(renamed.changes.renamed[0].to, "Action");
+  assert.strictEqual(renamed.summary.suggestedBump, "major");
+
+  const removed = compareVersions(base, await toVersion(2, editDemo((button, page) => { page.children = []; })));
+  assert.strictEqual(removed.summary.componentsRemoved, 1);
+  assert.strictEqual(removed.summary.suggestedBump, "major");
+
+  const added = compareVersions(base, await toVersion(2, editDemo((button, page) => {
+    page.children.push({ ...structuredClone(button), id: "2:1", name: "Chip", children: [] });
+  })));
+  assert.deepStrictEqual(added.changes.added.map(component => component.name), ["Chip"]);
+  assert.strictEqual(added.summary.suggestedBump, "minor");
+
+  // Removed tokens are breaking, changed values are not
+  const tokens = { colors: [{ name: "primary", value: "#3b82f6" }, { name: "muted", value: "#e4e4e7" }] };
+  const retokened = compareVersions(
+    await toVersion(1, demo, tokens),
+    await toVersion(2, demo, { colors: [{ name: "primary", value: "#2563eb" }] })
+  );
+  assert.deepStrictEqual(retokened.tokenChanges.map(change => [change.name, change.change, change.impact]), [
+    ["primary", "modified", "patch"],
+    ["muted", "removed", "major"]
+  ]);
+
+  const changelog = buildChangelog(toComparison(retokened), "Demo", "v1", "v2");
+  assert.deepStrictEqual(changelog.groups.map(group => group.title), ["Breaking changes", "Tokens"]);
+  assert.strictEqual(changelog.suggestedBump, "major");
+  assert.deepStrictEqual(changelog.groups[1].entries[0].changes, [{ label: "value", before: "#3b82f6", after: "#2563eb" }]);
+
+  // Rows stored before renames and token changes were tracked still classify and render
+  const legacy = toComparison({
+    changes: { added: [{ id: "2:1", name: "Chip", type: "COMPONENT" }], removed: [], modified: [] },
+    summary: { totalChanges: 0 }
+  });
+  assert.strictEqual(readComparisonData(legacy).summary.suggestedBump, "minor");
+  assert.deepStrictEqual(buildChangelog(legacy, "Demo", "v1", "v2").groups.map(group => group.title), ["Components"]);
+
+  console.log("Version diff checks passed");
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+import assert from "assert";
+import fs from "fs";
+import path from "path";
+import { decodePng, encodePng } from "./utils/png";
+import { diffImages } from "./utils/visual-diff";
+
+// Checks the PNG codec and pixel diff against fixtures/visual-diff: two 2x2 RGBA images
+// whose top-right pixel changes from green to black
+const directory = path.resolve("fixtures", "visual-diff");
+const before = decodePng(fs.readFileSync(path.join(directory, "before.png")));
+const after = decodePng(fs.readFileSync(path.join(directory, "after.png")));
+
+assert.deepStrictEqual([before.width, before.height], [2, 2]);
+assert.deepStrictEqual(Array.from(before.data), [
+  255, 0, 0, 255, 0, 255, 0, 255,
+  0, 0, 255, 255, 255, 255, 255, 0
+]);
+
+const roundTrip = decodePng(encodePng(before));
+assert.deepStrictEqual([roundTrip.width, roundTrip.height], [before.width, before.height]);
+assert.deepStrictEqual(Array.from(roundTrip.data), Array.from(before.data));
+
+const unchanged = diffImages(before, before);
+assert.strictEqual(unchanged.changedPixels, 0);
+
+const result = diffImages(before, after);
+assert.strictEqual(result.changedPixels, 1);
+assert.strictEqual(result.changedPercentage, 25);
+assert.deepStrictEqual(Array.from(result.overlay.data.subarray(4, 8)), [255, 0, 0, 255]);
+
+// 16-bit RGB with a tRNS key: only the pixel matching all 16 bits of the key is transparent
+const keyed = decodePng(fs.readFileSync(path.join(directory, "rgb16-transparent-key.png")));
+assert.deepStrictEqual(Array.from(keyed.data), [0x12, 0x56, 0x9a, 0, 0x12, 0x56, 0x9a, 255]);
+
+assert.throws(() => decodePng(Buffer.from("not a png")), /Not a PNG image/);
+
+console.log("Visual diff checks passed");
@@ -2,8 +2,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startVersionPolling } from "./utils/version-polling";
 
 const app = express();
+// Uploaded Figma JSON documents can be several megabytes; registered first so the default parser skips them
+app.post("/api/figma/import-json", express.json({ limit: "50mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -73,6 +76,7 @@ app.use((req, res, next) => {
       reusePort: true,
     }, () => {
       log(`Server running on port ${port} in ${app.get("env")} mode`);
+      startVersionPolling();
     });
   } catch (error) {
     log(`Failed to start server: ${error}`, "express");
@@ -0,0 +1,11 @@
+import express from "express";
+import { FIGMA_FIXTURES_DIR, createMockFigmaApi } from "./utils/figma-fixtures";
+
+// Standalone mock Figma API, for pointing FIGMA_API_BASE_URL at from another machine or process
+const port = Number(process.env.FIGMA_MOCK_PORT || 8090);
+const app = express();
+app.use("/v1", createMockFigmaApi(FIGMA_FIXTURES_DIR));
+
+app.listen(port, () => {
+  console.log(`Mock Figma API serving ${FIGMA_FIXTURES_DIR} on http://localhost:${port}/v1`);
+});
@@ -10,6 +10,10 @@ import { jobRoutes } from "./routes/jobs";
 import { versionRoutes } from "./routes/versions";
 import { designRoutes } from "./routes/design";
 import { settingsRoutes } from "./routes/settings";
+import { assetRoutes } from "./routes/assets";
+import { webhookRoutes } from "./routes/webhooks";
+import { trackingRoutes } from "./routes/tracking";
+import { FIGMA_API_MODE, FIGMA_FIXTURES_DIR, MOCK_FIGMA_API_PATH, createMockFigmaApi } from "./utils/figma-fixtures";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Get statistics
@@ -35,6 +39,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   versionRoutes(app);
   designRoutes(app);
   settingsRoutes(app);
+  assetRoutes(app);
+  webhookRoutes(app);
+  trackingRoutes(app);
+
+  // Offline mode: the Figma client is pointed at this mock instead of api.figma.com
+  if (FIGMA_API_MODE === 'mock') {
+    app.use(MOCK_FIGMA_API_PATH, createMockFigmaApi(FIGMA_FIXTURES_DIR));
+  }
 
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,20 @@
+import type { Express } from "express";
+import fs from "fs";
+import { getAssetPath } from "../utils/assets";
+
+export function assetRoutes(app: Express) {
+  app.get("/api/projects/:id/assets/:fileName", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const assetPath = getAssetPath(projectId, req.params.fileName);
+
+      if (!fs.existsSync(assetPath)) {
+        return res.status(404).json({ message: "Asset not found" });
+      }
+
+      res.sendFile(assetPath);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch asset" });
+    }
+  });
+}
@@ -1,5 +1,27 @@
 
 import type { Express } from "express";
+import { z } from "zod";
+import { getOrCreateVersionComparison, readComparisonData, type ChangeImpact, type ComponentChange } from "../utils/version-diff";
+
+const ANNOTATION_TYPES: Record<ChangeImpact, string> = { major: 'breaking', minor: 'addition', patch: 'improvement' };
+const ANNOTATION_IMPACTS: Record<ChangeImpact, string> = { major: 'high', minor: 'medium', patch: 'low' };
+
+function describeComponentChange(component: ComponentChange): string {
+  const parts: string[] = [];
+  if (component.previousName) parts.push(`renamed from ${component.previousName}`);
+  if (component.variants.added.length > 0) parts.push(`${component.variants.added.length} variant(s) added`);
+  if (component.variants.removed.length > 0) parts.push(`${component.variants.removed.length} variant(s) removed`);
+  if (component.variants.modified.length > 0) parts.push(`${component.variants.modified.length} variant(s) changed`);
+
+  if (Object.values(component.propertyDefinitions).some(list => list.length > 0)) parts.push('component properties changed');
+  if (component.layers.added.length > 0) parts.push(`${component.layers.added.length} layer(s) added`);
+  if (component.layers.removed.length > 0) parts.push(`${component.layers.removed.length} layer(s) removed`);
+
+  const categories = Array.from(new Set(component.styleChanges.map(change => change.category)));
+  if (categories.length > 0) parts.push(`${categories.join(', ')} updated`);
+
+  return parts.join('; ');
+}
 
 export function designRoutes(app: Express) {
   app.get("/api/design/health", async (req, res) => {
@@ -87,40 +109,61 @@ export function designRoutes(app: Express) {
 
   app.post("/api/design/compare/visualize", async (req, res) => {
     try {
-      const { fromVersion, toVersion, token } = req.body;
-      
-      if (!token) {
-        return res.status(400).json({ message: "Figma token required" });
+      const { fromVersion, toVersion } = z.object({
+        fromVersion: z.number(),
+        toVersion: z.number()
+      }).parse(req.body);
+
+      const comparison = await getOrCreateVersionComparison(fromVersion, toVersion);
+      if (!comparison) {
+        return res.status(404).json({ message: "Version not found" });
       }
 
+      const data = readComparisonData(comparison);
+      const createdAt = new Date(comparison.createdAt).toISOString();
+      const annotate = (componentId: string, impact: ChangeImpact, title: string, description: string) => ({
+        id: `${comparison.id}-${componentId}`,
+        versionId: toVersion,
+        componentId,
+        annotationType: ANNOTATION_TYPES[impact],
+        title,
+        description,
+        impact: ANNOTATION_IMPACTS[impact],
+        createdAt
+      });
+
       const annotations = [
-        {
-          id: '3',
-          versionId: toVersion,
-          componentId: 'card-component',
-          annotationType: 'improvement',
-          title: 'Card Shadow Enhanced',
-          description: 'Added subtle shadow for better depth perception',
-          impact: 'low',
-          createdAt: new Date().toISOString()
-        }
+        ...data.changes.removed.map(component =>
+          annotate(component.id, 'major', `${component.name} Removed`, `${component.type} no longer exists in this version`)),
+        ...data.changes.added.map(component =>
+          annotate(component.id, 'minor', `${component.name} Added`, `New ${component.type} in this version`)),
+        ...data.changes.modified.map(component =>
+          annotate(component.id, component.impact, `${component.name} Changed`, describeComponentChange(component)))
       ];
+      // Renames without other changes are not listed under modified
+      data.changes.renamed
+        .filter(rename => !data.changes.modified.some(component => component.id === rename.id))
+        .forEach(rename => annotations.push(
+          annotate(rename.id, 'major', `${rename.from} Renamed`, `Renamed to ${rename.to}`)));
 
-      const comparisonData = {
+      res.json({
         fromVersion,
         toVersion,
+        comparisonId: comparison.id,
         annotations,
         summary: {
-          totalChanges: 12,
-          improvements: 8,
-          breakingChanges: 3,
-          newComponents: 1
+          totalChanges: data.summary.totalChanges,
+          improvements: data.summary.patchChanges,
+          breakingChanges: data.summary.breakingChanges,
+          newComponents: data.summary.componentsAdded,
+          suggestedBump: data.summary.suggestedBump
         },
-        analysisDate: new Date().toISOString()
-      };
-
-      res.json(comparisonData);
+        analysisDate: createdAt
+      });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
       res.status(500).json({ message: "Comparison analysis failed" });
     }
   });
@@ -2,7 +2,58 @@
 import type { Express } from "express";
 import { storage } from "../storage";
 import { z } from "zod";
-import { fetchFigmaFile, extractComponentsFromFigmaData, generateReactComponentCode, extractDesignTokens } from "../utils/figma";
+import { createImageSource, exportProjectAssets, type ImageSource } from "../utils/assets";
+import { saveGeneratedComponents, saveIconComponents } from "../utils/component-generation";
+import { fetchFigmaFileCached } from "../utils/figma-cache";
+import { FigmaApiError, figmaErrorDetails, getFigmaClient, httpStatusForFigmaError } from "../utils/figma-client";
+import { parseFigmaUrl, normalizeFigmaDocument, fetchFigmaVariables, renderVariableCss, extractComponentsFromFigmaData, extractDesignTokens } from "../utils/figma";
+
+interface ExtractionSource {
+  fileId: string;
+  url: string;
+  userId: number;
+  variablesData?: any;
+  // Without one (e.g. uploaded JSON and no token) image fills keep their placeholders
+  imageSource: ImageSource | null;
+  generateIcons?: boolean;
+}
+
+// Shared by URL extraction and JSON upload: extracts components and tokens, saves the project
+// and its generated components, and returns the job output
+async function saveExtractedProject(jobId: number, figmaData: any, source: ExtractionSource) {
+  const components = await extractComponentsFromFigmaData(figmaData);
+  await storage.updateProcessingJob(jobId, { progressPercentage: 75 });
+
+  const designTokens = extractDesignTokens(figmaData, source.variablesData);
+
+  const project = await storage.createFigmaProject({
+    name: figmaData.name || 'Unnamed Project',
+    figmaFileId: source.fileId,
+    figmaUrl: source.url,
+    userId: source.userId
+  });
+
+  const assets = source.imageSource
+    ? await exportProjectAssets(source.fileId, project.id, components, source.imageSource)
+    : { manifest: {}, errors: [] };
+  await storage.updateProcessingJob(jobId, { progressPercentage: 90 });
+
+  const generatedComponents = await saveGeneratedComponents(components, designTokens, assets.manifest, {
+    projectId: project.id,
+    sourceType: 'figma_url'
+  });
+  const iconsCount = source.generateIcons ? await saveIconComponents(figmaData, { projectId: project.id }) : 0;
+
+  return {
+    projectId: project.id,
+    componentsCount: generatedComponents.length,
+    iconsCount,
+    assetsCount: Object.keys(assets.manifest).length,
+    assetErrors: assets.errors,
+    designTokens,
+    themeCss: renderVariableCss(designTokens.variables)
+  };
+}
 
 export function figmaRoutes(app: Express) {
   // Validate Figma URL
@@ -14,35 +65,41 @@ export function figmaRoutes(app: Express) {
         return res.status(400).json({ message: "URL and token are required" });
       }
 
-      const fileIdMatch = url.match(/\/(file|design)\/([a-zA-Z0-9]+)/);
-      if (!fileIdMatch) {
+      const parsedUrl = parseFigmaUrl(url);
+      if (!parsedUrl) {
         return res.status(400).json({ message: "Invalid Figma URL format" });
       }
 
-      const fileId = fileIdMatch[2];
+      const { fileId, nodeId } = parsedUrl;
 
       try {
-        const response = await fetch(`https://api.figma.com/v1/files/${fileId}`, {
-          method: 'GET',
-          headers: {
-            'X-Figma-Token': token,
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
+        // A node link only needs the node itself, not the whole document
+        const client = getFigmaClient();
+        const data = nodeId
+          ? await client.getFileNodes(fileId, [nodeId], token, { depth: '1' })
+          : await client.getFile(fileId, token, { depth: '1' });
+        const node = nodeId ? data.nodes?.[nodeId]?.document : undefined;
+        if (nodeId && !node) {
+          return res.status(404).json({ valid: false, message: "Node not found in Figma file" });
         }
-
-        const data = await response.json();
         
         res.json({
           valid: true,
           fileId,
+          nodeId,
+          nodeName: node?.name,
           fileName: data.name,
           lastModified: data.lastModified,
           thumbnailUrl: data.thumbnailUrl
         });
       } catch (apiError) {
+        if (apiError instanceof FigmaApiError && apiError.code !== 'unauthorized') {
+          return res.status(httpStatusForFigmaError(apiError)).json({
+            valid: false,
+            message: apiError.message,
+            ...figmaErrorDetails(apiError)
+          });
+        }
         res.status(401).json({ 
           valid: false, 
           message: "Invalid token or insufficient permissions" 
@@ -61,20 +118,21 @@ export function figmaRoutes(app: Express) {
       const validation = z.object({
         url: z.string().url(),
         token: z.string().min(1),
-        userId: z.number().optional()
+        userId: z.number().optional(),
+        generateIcons: z.boolean().optional()
       }).parse(req.body);
 
-      const fileIdMatch = validation.url.match(/\/(file|design)\/([a-zA-Z0-9]+)/);
-      if (!fileIdMatch) {
+      const parsedUrl = parseFigmaUrl(validation.url);
+      if (!parsedUrl) {
         return res.status(400).json({ message: "Invalid Figma URL" });
       }
 
-      const fileId = fileIdMatch[2];
+      const { fileId, nodeId } = parsedUrl;
 
       const job = await storage.createProcessingJob({
         type: 'figma_extraction',
         status: 'processing',
-        inputData: { url: validation.url, fileId },
+        inputData: { url: validation.url, fileId, nodeId },
         outputData: null,
         errorMessage: null,
         progressPercentage: 0,
@@ -86,50 +144,93 @@ export function figmaRoutes(app: Express) {
         try {
           await storage.updateProcessingJob(job.id, { progressPercentage: 25 });
 
-          const figmaData = await fetchFigmaFile(fileId, validation.token);
+          const { figmaData, cacheHit } = await fetchFigmaFileCached(fileId, validation.token, { geometry: validation.generateIcons, nodeId });
           await storage.updateProcessingJob(job.id, { progressPercentage: 50 });
 
-          const components = await extractComponentsFromFigmaData(figmaData);
-          await storage.updateProcessingJob(job.id, { progressPercentage: 75 });
+          const variablesData = await fetchFigmaVariables(fileId, validation.token);
+          const result = await saveExtractedProject(job.id, figmaData, {
+            fileId,
+            url: validation.url,
+            userId: validation.userId || 1,
+            variablesData,
+            imageSource: createImageSource(validation.token),
+            generateIcons: validation.generateIcons
+          });
 
-          const designTokens = extractDesignTokens(figmaData);
+          await storage.updateProcessingJob(job.id, { 
+            status: 'completed',
+            progressPercentage: 100,
+            outputData: { cacheHit, ...result }
+          });
 
-          const project = await storage.createFigmaProject({
-            name: figmaData.name || 'Unnamed Project',
-            figmaFileId: fileId,
-            figmaUrl: validation.url,
-            userId: validation.userId || 1
+        } catch (error) {
+          await storage.updateProcessingJob(job.id, { 
+            status: 'failed',
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            outputData: figmaErrorDetails(error),
+            progressPercentage: 100
           });
+        }
+      }, 100);
 
-          const generatedComponents = [];
-          for (const component of components) {
-            const generatedCode = generateReactComponentCode(component, designTokens);
-            
-            const savedComponent = await storage.createGeneratedComponent({
-              name: component.name,
-              projectId: project.id,
-              sourceType: 'figma_url',
-              sourceData: component,
-              generatedCode,
-              designTokens,
-              metadata: {
-                figmaNodeId: component.id,
-                extractedAt: new Date().toISOString()
-              },
-              isPublic: false
-            });
-
-            generatedComponents.push(savedComponent);
-          }
+      res.json({ jobId: job.id, status: 'processing' });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Extraction failed" });
+    }
+  });
+
+  // Import a saved REST response or plugin export instead of fetching from Figma
+  app.post("/api/figma/import-json", async (req, res) => {
+    try {
+      const validation = z.object({
+        data: z.record(z.any()),
+        fileName: z.string().optional(),
+        fileKey: z.string().regex(/^[a-zA-Z0-9]+$/).optional(),
+        userId: z.number().optional(),
+        generateIcons: z.boolean().optional()
+      }).parse(req.body);
+
+      let figmaData;
+      try {
+        figmaData = normalizeFigmaDocument(validation.data, validation.fileName?.replace(/\.json$/i, ''));
+      } catch (shapeError) {
+        return res.status(400).json({ message: shapeError instanceof Error ? shapeError.message : "Invalid Figma JSON" });
+      }
+
+      // Uploads have no file key unless one is given, so the project gets a synthetic one
+      const fileId = validation.fileKey || `upload-${Date.now()}`;
+      const url = validation.fileKey ? `https://www.figma.com/file/${validation.fileKey}` : `upload:${validation.fileName || 'figma.json'}`;
+
+      const job = await storage.createProcessingJob({
+        type: 'figma_extraction',
+        status: 'processing',
+        inputData: { url, fileId, fileName: validation.fileName, source: 'upload' },
+        outputData: null,
+        errorMessage: null,
+        progressPercentage: 0,
+        userId: validation.userId || 1
+      });
+
+      setTimeout(async () => {
+        try {
+          await storage.updateProcessingJob(job.id, { progressPercentage: 50 });
+
+          const result = await saveExtractedProject(job.id, figmaData, {
+            fileId,
+            url,
+            userId: validation.userId || 1,
+            imageSource: null,
+            generateIcons: validation.generateIcons
+          });
 
           await storage.updateProcessingJob(job.id, { 
             status: 'completed',
             progressPercentage: 100,
-            outputData: { 
-              projectId: project.id,
-              componentsCount: generatedComponents.length,
-              designTokens 
-            }
+            outputData: result
           });
 
         } catch (error) {
@@ -147,7 +248,31 @@ export function figmaRoutes(app: Express) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid request data", errors: error.errors });
       }
-      res.status(500).json({ message: "Extraction failed" });
+      res.status(500).json({ message: "Import failed" });
+    }
+  });
+
+  // Raw file JSON for the in-browser converter, fetched through the shared client
+  app.post("/api/figma/file", async (req, res) => {
+    try {
+      const validation = z.object({
+        fileId: z.string().min(1),
+        token: z.string().min(1),
+        nodeId: z.string().optional()
+      }).parse(req.body);
+
+      const { figmaData, cacheHit } = await fetchFigmaFileCached(validation.fileId, validation.token, { nodeId: validation.nodeId });
+      res.setHeader('X-Figma-Cache', cacheHit ? 'hit' : 'miss');
+      res.json(figmaData);
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      if (error instanceof FigmaApiError) {
+        return res.status(httpStatusForFigmaError(error)).json({ message: error.message, ...figmaErrorDetails(error) });
+      }
+      res.status(500).json({ message: "Failed to fetch Figma file" });
     }
   });
 
@@ -161,17 +286,17 @@ export function figmaRoutes(app: Express) {
         token: z.string().min(1)
       }).parse(req.body);
 
-      const fileIdMatch = validation.url.match(/\/(file|design)\/([a-zA-Z0-9]+)/);
-      if (!fileIdMatch) {
+      const parsedUrl = parseFigmaUrl(validation.url);
+      if (!parsedUrl) {
         return res.status(400).json({ message: "Invalid Figma URL" });
       }
 
-      const fileId = fileIdMatch[2];
-      const figmaData = await fetchFigmaFile(fileId, validation.token);
+      const { fileId, nodeId } = parsedUrl;
+      const { figmaData, cacheHit } = await fetchFigmaFileCached(fileId, validation.token, { nodeId });
       const { extractColorPaletteFromFigmaData } = await import("../utils/figma");
       const colorPalette = extractColorPaletteFromFigmaData(figmaData);
 
-      res.json({ colorPalette });
+      res.json({ colorPalette, cacheHit });
 
     } catch (error) {
       res.status(500).json({ message: "Color extraction failed" });
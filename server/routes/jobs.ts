@@ -1,6 +1,19 @@
 
 import type { Express } from "express";
+import { z } from "zod";
 import { storage } from "../storage";
+import { generateIconIndex } from "../utils/icons";
+
+// Without ?versionId= only the live set is listed; regenerated sets are tagged with their version
+const versionQuerySchema = z.object({
+  versionId: z.coerce.number().int().positive().optional()
+});
+
+async function getComponentSet(projectId: number, query: unknown) {
+  const { versionId } = versionQuerySchema.parse(query);
+  const components = await storage.getComponentsByProject(projectId);
+  return components.filter(component => component.versionId === (versionId ?? null));
+}
 
 export function jobRoutes(app: Express) {
   app.get("/api/jobs/:id", async (req, res) => {
@@ -32,13 +45,34 @@ export function jobRoutes(app: Express) {
   app.get("/api/projects/:id/components", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const components = await storage.getComponentsByProject(projectId);
+      const components = await getComponentSet(projectId, req.query);
       res.json(components);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid version id", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch components" });
     }
   });
 
+  app.get("/api/projects/:id/icons", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const components = await getComponentSet(projectId, req.query);
+      const icons = components.filter(component => component.sourceType === 'figma_icon');
+
+      res.json({
+        icons,
+        index: generateIconIndex(icons.map(icon => icon.name))
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid version id", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch icons" });
+    }
+  });
+
   app.get("/api/components/:id", async (req, res) => {
     try {
       const componentId = parseInt(req.params.id);
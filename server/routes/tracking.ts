@@ -0,0 +1,82 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { checkTrackedProjectNow } from "../utils/version-polling";
+
+export function trackingRoutes(app: Express) {
+  // Polling status of every tracked project
+  app.get("/api/tracking", async (req, res) => {
+    try {
+      const schedules = await storage.getTrackingSchedules();
+      const statuses = await Promise.all(schedules.map(async schedule => {
+        const project = await storage.getFigmaProject(schedule.projectId);
+        return { ...schedule, projectName: project?.name ?? null };
+      }));
+      res.json(statuses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tracking status" });
+    }
+  });
+
+  app.get("/api/projects/:id/tracking", async (req, res) => {
+    try {
+      const schedule = await storage.getTrackingSchedule(parseInt(req.params.id));
+      if (!schedule) {
+        return res.status(404).json({ message: "Project is not tracked" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tracking status" });
+    }
+  });
+
+  // Starts or updates polling; the first check runs on the scheduler's next tick
+  app.put("/api/projects/:id/tracking", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const validation = z.object({
+        intervalMinutes: z.number().int().min(1).max(7 * 24 * 60),
+        enabled: z.boolean().optional()
+      }).parse(req.body);
+
+      const project = await storage.getFigmaProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const schedule = await storage.upsertTrackingSchedule({
+        projectId,
+        intervalMinutes: validation.intervalMinutes,
+        enabled: validation.enabled ?? true,
+        nextRunAt: new Date()
+      });
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update tracking" });
+    }
+  });
+
+  app.post("/api/projects/:id/tracking/check", async (req, res) => {
+    try {
+      const check = await checkTrackedProjectNow(parseInt(req.params.id));
+      if (check.busy) {
+        return res.status(409).json({ message: "A tracking check is already running, try again shortly" });
+      }
+      if (!check.schedule) {
+        return res.status(404).json({ message: "Project is not tracked" });
+      }
+
+      // A failed check is recorded on the schedule; its error is returned so it is not mistaken for "no changes"
+      const updated = await storage.getTrackingSchedule(check.schedule.projectId);
+      if (!check.result) {
+        return res.json({ ...updated, ok: false, changed: false, error: updated?.lastError || "Tracking check failed" });
+      }
+      res.json({ ...updated, ok: true, changed: check.result.changed, versionId: check.result.versionId });
+    } catch (error) {
+      res.status(500).json({ message: "Tracking check failed" });
+    }
+  });
+}
@@ -1,8 +1,21 @@
 
 import type { Express } from "express";
+import fs from "fs";
 import { storage } from "../storage";
 import { z } from "zod";
-import { fetchFigmaFile, extractComponentsFromFigmaData, extractDesignTokens } from "../utils/figma";
+import { runVersionRegenerationJob, runVersionTrackingJob } from "../utils/version-tracking";
+import { getOrCreateVersionComparison } from "../utils/version-diff";
+import {
+  CHANGELOG_FORMATS,
+  loadChangelog,
+  renderChangelogFeed,
+  renderChangelogHtml,
+  renderChangelogMarkdown
+} from "../utils/changelog";
+import { createVersionImageSource, getVisualDiffPath, runVisualDiffJob } from "../utils/visual-diff";
+
+const DEFAULT_FEED_ENTRIES = 20;
+const MAX_FEED_ENTRIES = 100;
 
 export function versionRoutes(app: Express) {
   app.post("/api/versions/create", async (req, res) => {
@@ -34,43 +47,13 @@ export function versionRoutes(app: Express) {
         userId: 1
       });
 
-      setTimeout(async () => {
-        try {
-          await storage.updateProcessingJob(job.id, { progressPercentage: 25 });
-
-          const figmaData = await fetchFigmaFile(fileId, validation.token);
-          await storage.updateProcessingJob(job.id, { progressPercentage: 50 });
-
-          const components = await extractComponentsFromFigmaData(figmaData);
-          const designTokens = extractDesignTokens(figmaData);
-          await storage.updateProcessingJob(job.id, { progressPercentage: 75 });
-
-          const version = await storage.createFigmaVersion({
-            projectId: validation.projectId,
-            versionName: validation.versionName,
-            versionDescription: validation.versionDescription || '',
-            figmaLastModified: figmaData.lastModified,
-            figmaVersionId: figmaData.version,
-            figmaData: figmaData,
-            components: components,
-            designTokens: designTokens,
-            thumbnailUrl: figmaData.thumbnailUrl
-          });
-
-          await storage.updateProcessingJob(job.id, { 
-            status: 'completed',
-            progressPercentage: 100,
-            outputData: { versionId: version.id }
-          });
-
-        } catch (error) {
-          await storage.updateProcessingJob(job.id, { 
-            status: 'failed',
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-            progressPercentage: 100
-          });
-        }
-      }, 100);
+      setTimeout(() => runVersionTrackingJob(job.id, {
+        projectId: validation.projectId,
+        fileId,
+        token: validation.token,
+        versionName: validation.versionName,
+        versionDescription: validation.versionDescription
+      }), 100);
 
       res.json({ jobId: job.id, status: 'processing' });
 
@@ -89,6 +72,41 @@ export function versionRoutes(app: Express) {
     }
   });
 
+  // Regenerates code from a stored snapshot, e.g. to reproduce a past design release or roll back
+  app.post("/api/versions/:id/regenerate", async (req, res) => {
+    try {
+      const validation = z.object({
+        generateIcons: z.boolean().optional()
+      }).parse(req.body);
+
+      const version = await storage.getFigmaVersion(parseInt(req.params.id));
+      if (!version) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      const project = await storage.getFigmaProject(version.projectId);
+      const job = await storage.createProcessingJob({
+        type: 'version_regeneration',
+        status: 'processing',
+        inputData: { projectId: version.projectId, versionId: version.id, generateIcons: validation.generateIcons ?? false },
+        outputData: null,
+        errorMessage: null,
+        progressPercentage: 0,
+        userId: project?.userId ?? 1
+      });
+
+      setTimeout(() => runVersionRegenerationJob(job.id, version, validation), 100);
+
+      res.json({ jobId: job.id, status: 'processing' });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Version regeneration failed" });
+    }
+  });
+
   app.post("/api/versions/compare", async (req, res) => {
     try {
       const { fromVersionId, toVersionId } = req.body;
@@ -98,40 +116,136 @@ export function versionRoutes(app: Express) {
         toVersionId: z.number()
       }).parse(req.body);
 
-      const existingComparison = await storage.getVersionComparison(
-        validation.fromVersionId, 
-        validation.toVersionId
-      );
+      const comparison = await getOrCreateVersionComparison(validation.fromVersionId, validation.toVersionId);
+      if (!comparison) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+
+      res.json(comparison);
+
+    } catch (error) {
+      res.status(500).json({ message: "Version comparison failed" });
+    }
+  });
+
+  app.get("/api/versions/compare/:id/changelog", async (req, res) => {
+    try {
+      const format = z.enum(CHANGELOG_FORMATS).default('md').parse(req.query.format);
 
-      if (existingComparison) {
-        return res.json(existingComparison);
+      const comparison = await storage.getVersionComparisonById(parseInt(req.params.id));
+      if (!comparison) {
+        return res.status(404).json({ message: "Comparison not found" });
       }
 
-      const fromVersion = await storage.getFigmaVersion(validation.fromVersionId);
-      const toVersion = await storage.getFigmaVersion(validation.toVersionId);
+      const changelog = await loadChangelog(comparison);
+      if (format === 'json') {
+        return res.json(changelog);
+      }
+      if (format === 'html') {
+        return res.type('html').send(renderChangelogHtml(changelog));
+      }
+      res.type('text/markdown').send(renderChangelogMarkdown(changelog));
 
-      if (!fromVersion || !toVersion) {
-        return res.status(404).json({ message: "Version not found" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Format must be one of md, html or json" });
       }
+      res.status(500).json({ message: "Failed to render changelog" });
+    }
+  });
 
-      const comparisonData = {
-        changes: { added: [], removed: [], modified: [] },
-        colorChanges: [],
-        typographyChanges: [],
-        summary: { totalChanges: 0, componentChanges: 0, designTokenChanges: 0 }
-      };
+  // Atom feed of the project's latest comparisons so design updates can be subscribed to
+  app.get("/api/projects/:id/changelog.atom", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const limit = z.coerce.number().int().min(1).max(MAX_FEED_ENTRIES).default(DEFAULT_FEED_ENTRIES).parse(req.query.limit);
 
-      const comparison = await storage.createVersionComparison({
-        projectId: fromVersion.projectId,
-        fromVersionId: validation.fromVersionId,
-        toVersionId: validation.toVersionId,
-        comparisonData: comparisonData
+      const project = await storage.getFigmaProject(projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      const comparisons = await storage.getVersionComparisonsByProject(projectId, limit);
+      const entries = await Promise.all(comparisons.map(async comparison => ({
+        changelog: await loadChangelog(comparison),
+        url: `${baseUrl}/api/versions/compare/${comparison.id}/changelog`
+      })));
+
+      res.type('application/atom+xml').send(renderChangelogFeed(project.name, `${baseUrl}${req.path}`, entries));
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: `Limit must be between 1 and ${MAX_FEED_ENTRIES}` });
+      }
+      res.status(500).json({ message: "Failed to render changelog feed" });
+    }
+  });
+
+  app.post("/api/versions/compare/:id/visual-diff", async (req, res) => {
+    try {
+      const validation = z.object({
+        token: z.string().min(1).optional()
+      }).parse(req.body);
+
+      const comparison = await storage.getVersionComparisonById(parseInt(req.params.id));
+      if (!comparison) {
+        return res.status(404).json({ message: "Comparison not found" });
+      }
+
+      const project = await storage.getFigmaProject(comparison.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const source = createVersionImageSource(project.figmaFileId, validation.token);
+      if (!source) {
+        return res.status(400).json({ message: "Figma token required" });
+      }
+
+      const job = await storage.createProcessingJob({
+        type: 'visual_diff',
+        status: 'processing',
+        inputData: { comparisonId: comparison.id, fileId: project.figmaFileId },
+        outputData: null,
+        errorMessage: null,
+        progressPercentage: 0,
+        userId: project.userId ?? 1
       });
 
-      res.json(comparison);
+      setTimeout(() => runVisualDiffJob(job.id, comparison, source), 100);
+
+      res.json({ jobId: job.id, status: 'processing' });
 
     } catch (error) {
-      res.status(500).json({ message: "Version comparison failed" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Visual diff failed" });
+    }
+  });
+
+  app.get("/api/versions/compare/:id/visual-diff", async (req, res) => {
+    try {
+      const comparison = await storage.getVersionComparisonById(parseInt(req.params.id));
+      if (!comparison?.visualDiff) {
+        return res.status(404).json({ message: "No visual diff for this comparison" });
+      }
+      res.json(comparison.visualDiff);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch visual diff" });
+    }
+  });
+
+  app.get("/api/versions/compare/:id/visual-diff/:fileName", async (req, res) => {
+    try {
+      const overlayPath = getVisualDiffPath(parseInt(req.params.id), req.params.fileName);
+      if (!fs.existsSync(overlayPath)) {
+        return res.status(404).json({ message: "Overlay not found" });
+      }
+      res.sendFile(overlayPath);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch overlay" });
     }
   });
 }
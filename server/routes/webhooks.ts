@@ -0,0 +1,151 @@
+import type { Express } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { runVersionTrackingJob } from "../utils/version-tracking";
+
+const SNAPSHOT_EVENTS = ['FILE_UPDATE', 'FILE_VERSION_UPDATE', 'LIBRARY_PUBLISH'];
+
+// Figma sends FILE_UPDATE repeatedly while a file is being edited; every event for a file
+// inside this window joins the snapshot the first one scheduled
+const DEBOUNCE_MS = Number(process.env.FIGMA_WEBHOOK_DEBOUNCE_MS ?? 30000);
+
+interface PendingSnapshot {
+  // Resolves once the jobs exist, so events joining early still answer with the job ids
+  jobIds: Promise<number[]>;
+  events: any[];
+}
+
+const pendingSnapshots = new Map<string, PendingSnapshot>();
+
+const webhookPayloadSchema = z.object({
+  event_type: z.string(),
+  passcode: z.string(),
+  webhook_id: z.union([z.string(), z.number()]).optional(),
+  file_key: z.string().optional(),
+  file_name: z.string().optional(),
+  timestamp: z.string().optional(),
+  version_id: z.string().optional(),
+  label: z.string().optional(),
+  description: z.string().optional()
+}).passthrough();
+
+function passcodeMatches(passcode: string, expected: string): boolean {
+  const received = Buffer.from(passcode);
+  const configured = Buffer.from(expected);
+  return received.length === configured.length && crypto.timingSafeEqual(received, configured);
+}
+
+// A labelled version in the burst names the snapshot; otherwise it is named after the latest event
+function describeSnapshot(events: any[]) {
+  const versionEvent = [...events].reverse().find(event => event.event_type === 'FILE_VERSION_UPDATE' && event.label);
+  const latest = events[events.length - 1];
+  const eventTypes = Array.from(new Set(events.map(event => event.event_type)));
+
+  return {
+    versionName: versionEvent?.label || `${latest.file_name || latest.file_key} (${latest.timestamp || new Date().toISOString()})`,
+    versionDescription: versionEvent?.description || `Captured from Figma webhook: ${eventTypes.join(', ')}`
+  };
+}
+
+export function webhookRoutes(app: Express) {
+  app.post("/api/webhooks/figma", async (req, res) => {
+    try {
+      const expectedPasscode = process.env.FIGMA_WEBHOOK_PASSCODE;
+      if (!expectedPasscode) {
+        return res.status(503).json({ message: "Figma webhooks are not configured" });
+      }
+
+      const payload = webhookPayloadSchema.parse(req.body);
+      if (!passcodeMatches(payload.passcode, expectedPasscode)) {
+        return res.status(401).json({ message: "Invalid webhook passcode" });
+      }
+
+      // Figma retries anything but a 2xx, so events we do not act on are still acknowledged
+      if (!SNAPSHOT_EVENTS.includes(payload.event_type) || !payload.file_key) {
+        return res.json({ received: true, ignored: true });
+      }
+
+      // Answered with 200 as well: a redelivery would fail the same way until a token is configured
+      const token = process.env.FIGMA_API_TOKEN;
+      if (!token) {
+        return res.json({ received: true, skipped: "FIGMA_API_TOKEN is not configured" });
+      }
+
+      const fileKey = payload.file_key;
+      const joinPending = async (pending: PendingSnapshot) => {
+        pending.events.push(payload);
+        res.json({ received: true, deduplicated: true, jobIds: await pending.jobIds });
+      };
+
+      const pending = pendingSnapshots.get(fileKey);
+      if (pending) {
+        return joinPending(pending);
+      }
+
+      const projects = await storage.getFigmaProjectsByFileId(fileKey);
+      if (projects.length === 0) {
+        return res.json({ received: true, ignored: true, message: "No project tracks this file" });
+      }
+
+      // Another event for the file may have claimed the snapshot during the lookup
+      const claimed = pendingSnapshots.get(fileKey);
+      if (claimed) {
+        return joinPending(claimed);
+      }
+
+      const snapshot: PendingSnapshot = {
+        events: [payload],
+        jobIds: (async () => {
+          const ids: number[] = [];
+          for (const project of projects) {
+            const job = await storage.createProcessingJob({
+              type: 'version_tracking',
+              status: 'processing',
+              inputData: { projectId: project.id, fileId: fileKey, trigger: 'webhook', eventType: payload.event_type, webhookId: payload.webhook_id },
+              outputData: null,
+              errorMessage: null,
+              progressPercentage: 0,
+              userId: project.userId ?? 1
+            });
+            ids.push(job.id);
+          }
+          return ids;
+        })()
+      };
+      pendingSnapshots.set(fileKey, snapshot);
+
+      let jobIds: number[];
+      try {
+        jobIds = await snapshot.jobIds;
+      } catch (error) {
+        pendingSnapshots.delete(fileKey);
+        throw error;
+      }
+
+      setTimeout(async () => {
+        pendingSnapshots.delete(fileKey);
+        const { versionName, versionDescription } = describeSnapshot(snapshot.events);
+
+        // One project at a time; after the first, the file comes from the cache
+        for (let index = 0; index < projects.length; index++) {
+          await runVersionTrackingJob(jobIds[index], {
+            projectId: projects[index].id,
+            fileId: fileKey,
+            token,
+            versionName,
+            versionDescription
+          });
+        }
+      }, DEBOUNCE_MS);
+
+      res.json({ received: true, deduplicated: false, jobIds });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid webhook payload", errors: error.errors });
+      }
+      res.status(500).json({ message: "Webhook processing failed" });
+    }
+  });
+}
@@ -6,16 +6,19 @@ import {
   processingJobs, 
   figmaVersions, 
   versionComparisons,
+  trackingSchedules,
   type InsertFigmaProject,
   type InsertGeneratedComponent,
   type InsertProcessingJob,
   type InsertFigmaVersion,
   type InsertVersionComparison,
+  type InsertTrackingSchedule,
   type FigmaProject,
   type GeneratedComponent,
   type ProcessingJob,
   type FigmaVersion,
-  type VersionComparison
+  type VersionComparison,
+  type TrackingSchedule
 } from "@shared/schema";
 import { eq, desc, and } from "drizzle-orm";
 
@@ -30,6 +33,9 @@ const mockStats = {
 const mockJobs: ProcessingJob[] = [];
 const mockProjects: FigmaProject[] = [];
 const mockComponents: GeneratedComponent[] = [];
+const mockVersions: FigmaVersion[] = [];
+const mockComparisons: VersionComparison[] = [];
+const mockSchedules: TrackingSchedule[] = [];
 
 class Storage {
   private async isDatabaseAvailable(): Promise<boolean> {
@@ -95,6 +101,36 @@ class Storage {
     }
   }
 
+  async getFigmaProject(id: number): Promise<FigmaProject | null> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        return mockProjects.find(project => project.id === id) || null;
+      }
+
+      const [project] = await db.select().from(figmaProjects).where(eq(figmaProjects.id, id));
+      return project || null;
+    } catch (error) {
+      console.error("Error fetching project:", error);
+      return null;
+    }
+  }
+
+  async getFigmaProjectsByFileId(figmaFileId: string): Promise<FigmaProject[]> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        return mockProjects.filter(project => project.figmaFileId === figmaFileId);
+      }
+
+      return await db.select().from(figmaProjects)
+        .where(eq(figmaProjects.figmaFileId, figmaFileId));
+    } catch (error) {
+      console.error("Error fetching projects by file:", error);
+      return [];
+    }
+  }
+
   async createGeneratedComponent(data: InsertGeneratedComponent): Promise<GeneratedComponent> {
     try {
       const isDbAvailable = await this.isDatabaseAvailable();
@@ -108,6 +144,7 @@ class Storage {
           generatedCode: data.generatedCode ?? null,
           designTokens: data.designTokens ?? null,
           metadata: data.metadata ?? null,
+          versionId: data.versionId ?? null,
           isPublic: data.isPublic ?? false,
           createdAt: new Date()
         };
@@ -261,6 +298,7 @@ class Storage {
           thumbnailUrl: data.thumbnailUrl ?? null,
           createdAt: new Date()
         };
+        mockVersions.push(mockVersion);
         return mockVersion;
       }
 
@@ -276,7 +314,9 @@ class Storage {
     try {
       const isDbAvailable = await this.isDatabaseAvailable();
       if (!isDbAvailable) {
-        return [];
+        return mockVersions
+          .filter(version => version.projectId === projectId)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
       }
 
       return await db.select().from(figmaVersions)
@@ -292,7 +332,7 @@ class Storage {
     try {
       const isDbAvailable = await this.isDatabaseAvailable();
       if (!isDbAvailable) {
-        return null;
+        return mockVersions.find(version => version.id === id) || null;
       }
 
       const [version] = await db.select().from(figmaVersions)
@@ -314,8 +354,10 @@ class Storage {
           fromVersionId: data.fromVersionId,
           toVersionId: data.toVersionId,
           comparisonData: data.comparisonData,
+          visualDiff: data.visualDiff ?? null,
           createdAt: new Date()
         };
+        mockComparisons.push(mockComparison);
         return mockComparison;
       }
 
@@ -331,7 +373,9 @@ class Storage {
     try {
       const isDbAvailable = await this.isDatabaseAvailable();
       if (!isDbAvailable) {
-        return null;
+        return mockComparisons.find(comparison =>
+          comparison.fromVersionId === fromVersionId && comparison.toVersionId === toVersionId
+        ) || null;
       }
 
       const [comparison] = await db.select().from(versionComparisons)
@@ -345,6 +389,170 @@ class Storage {
       return null;
     }
   }
+
+  async getVersionComparisonById(id: number): Promise<VersionComparison | null> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        return mockComparisons.find(comparison => comparison.id === id) || null;
+      }
+
+      const [comparison] = await db.select().from(versionComparisons).where(eq(versionComparisons.id, id));
+      return comparison || null;
+    } catch (error) {
+      console.error("Error fetching comparison:", error);
+      return null;
+    }
+  }
+
+  async updateVersionComparison(id: number, updates: Partial<VersionComparison>): Promise<VersionComparison | null> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        const index = mockComparisons.findIndex(comparison => comparison.id === id);
+        if (index >= 0) {
+          mockComparisons[index] = { ...mockComparisons[index], ...updates };
+          return mockComparisons[index];
+        }
+        return null;
+      }
+
+      const [comparison] = await db.update(versionComparisons)
+        .set(updates)
+        .where(eq(versionComparisons.id, id))
+        .returning();
+      return comparison || null;
+    } catch (error) {
+      console.error("Error updating comparison:", error);
+      return null;
+    }
+  }
+
+  async getVersionComparisonsByProject(projectId: number, limit: number): Promise<VersionComparison[]> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        return mockComparisons
+          .filter(comparison => comparison.projectId === projectId)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+          .slice(0, limit);
+      }
+
+      return await db.select().from(versionComparisons)
+        .where(eq(versionComparisons.projectId, projectId))
+        .orderBy(desc(versionComparisons.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error fetching comparisons:", error);
+      return [];
+    }
+  }
+
+  async getTrackingSchedules(): Promise<TrackingSchedule[]> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        return [...mockSchedules];
+      }
+
+      return await db.select().from(trackingSchedules);
+    } catch (error) {
+      console.error("Error fetching tracking schedules:", error);
+      return [];
+    }
+  }
+
+  async getTrackingSchedule(projectId: number): Promise<TrackingSchedule | null> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        return mockSchedules.find(schedule => schedule.projectId === projectId) || null;
+      }
+
+      const [schedule] = await db.select().from(trackingSchedules)
+        .where(eq(trackingSchedules.projectId, projectId));
+      return schedule || null;
+    } catch (error) {
+      console.error("Error fetching tracking schedule:", error);
+      return null;
+    }
+  }
+
+  // One schedule per project: an existing one is updated in place
+  async upsertTrackingSchedule(data: InsertTrackingSchedule): Promise<TrackingSchedule> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        const existing = mockSchedules.find(schedule => schedule.projectId === data.projectId);
+        if (existing) {
+          Object.assign(existing, {
+            intervalMinutes: data.intervalMinutes ?? existing.intervalMinutes,
+            enabled: data.enabled ?? existing.enabled,
+            nextRunAt: data.nextRunAt,
+            consecutiveFailures: data.consecutiveFailures ?? 0,
+            lastError: data.lastError ?? null
+          });
+          return existing;
+        }
+
+        const mockSchedule: TrackingSchedule = {
+          id: Date.now(),
+          projectId: data.projectId,
+          intervalMinutes: data.intervalMinutes ?? 60,
+          enabled: data.enabled ?? true,
+          lastModified: data.lastModified ?? null,
+          lastCheckedAt: data.lastCheckedAt ?? null,
+          lastChangedAt: data.lastChangedAt ?? null,
+          nextRunAt: data.nextRunAt,
+          consecutiveFailures: data.consecutiveFailures ?? 0,
+          lastError: data.lastError ?? null,
+          createdAt: new Date()
+        };
+        mockSchedules.push(mockSchedule);
+        return mockSchedule;
+      }
+
+      const [schedule] = await db.insert(trackingSchedules).values(data)
+        .onConflictDoUpdate({
+          target: trackingSchedules.projectId,
+          set: {
+            intervalMinutes: data.intervalMinutes,
+            enabled: data.enabled,
+            nextRunAt: data.nextRunAt,
+            consecutiveFailures: data.consecutiveFailures ?? 0,
+            lastError: data.lastError ?? null
+          }
+        })
+        .returning();
+      return schedule;
+    } catch (error) {
+      console.error("Error saving tracking schedule:", error);
+      throw error;
+    }
+  }
+
+  async updateTrackingSchedule(id: number, updates: Partial<TrackingSchedule>): Promise<TrackingSchedule | null> {
+    try {
+      const isDbAvailable = await this.isDatabaseAvailable();
+      if (!isDbAvailable) {
+        const index = mockSchedules.findIndex(schedule => schedule.id === id);
+        if (index >= 0) {
+          mockSchedules[index] = { ...mockSchedules[index], ...updates };
+          return mockSchedules[index];
+        }
+        return null;
+      }
+
+      const [schedule] = await db.update(trackingSchedules)
+        .set(updates)
+        .where(eq(trackingSchedules.id, id))
+        .returning();
+      return schedule || null;
+    } catch (error) {
+      console.error("Error updating tracking schedule:", error);
+      return null;
+    }
+  }
 }
 
 export const storage = new Storage();
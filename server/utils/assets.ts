@@ -0,0 +1,219 @@
+import fs from "fs";
+import path from "path";
+import { getFigmaClient } from "./figma-client";
+import { FIGMA_API_MODE, FIGMA_FIXTURES_DIR, toFixtureSegment } from "./figma-fixtures";
+
+// Where exported assets are written, one directory per project
+const ASSETS_DIR = process.env.ASSETS_DIR || path.resolve("storage", "assets");
+
+// Figma's render endpoint accepts a limited number of ids per request
+const RENDER_BATCH_SIZE = 50;
+
+export interface ImageSource {
+  fetchImageFills(fileKey: string, imageRefs: string[]): Promise<Map<string, Buffer>>;
+  renderNodes(fileKey: string, nodeIds: string[], format: 'svg' | 'png'): Promise<Map<string, Buffer>>;
+}
+
+export interface ComponentAsset {
+  kind: 'image' | 'vector';
+  key: string;
+  fileName: string;
+  contentType: string;
+  url: string;
+}
+
+// Keyed by imageRef for image fills and by node id for vectors
+export type AssetManifest = Record<string, ComponentAsset>;
+
+export async function downloadBuffer(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Asset download failed: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export class FigmaImageSource implements ImageSource {
+  constructor(private token: string) {}
+
+  async fetchImageFills(fileKey: string, imageRefs: string[]): Promise<Map<string, Buffer>> {
+    const buffers = new Map<string, Buffer>();
+    if (imageRefs.length === 0) return buffers;
+
+    const data = await getFigmaClient().getImageFills(fileKey, this.token);
+    const urls: Record<string, string> = data.meta?.images || {};
+
+    for (const imageRef of imageRefs) {
+      if (urls[imageRef]) {
+        buffers.set(imageRef, await downloadBuffer(urls[imageRef]));
+      }
+    }
+    return buffers;
+  }
+
+  // Passing a Figma version id renders the nodes as they were in that version
+  async renderNodes(fileKey: string, nodeIds: string[], format: 'svg' | 'png', version?: string): Promise<Map<string, Buffer>> {
+    const buffers = new Map<string, Buffer>();
+
+    for (let index = 0; index < nodeIds.length; index += RENDER_BATCH_SIZE) {
+      const ids = nodeIds.slice(index, index + RENDER_BATCH_SIZE);
+      const data = await getFigmaClient().renderImages(fileKey, ids, format, this.token, version ? { version } : {});
+      const urls: Record<string, string | null> = data.images || {};
+
+      for (const nodeId of ids) {
+        const url = urls[nodeId];
+        if (url) {
+          buffers.set(nodeId, await downloadBuffer(url));
+        }
+      }
+    }
+    return buffers;
+  }
+}
+
+// Reads assets from a local directory laid out as images/<imageRef>.png and renders/<node-id>.<format>,
+// where node ids have ':' and ';' replaced by '-'. Lets the asset stage run without network access.
+export class FixtureImageSource implements ImageSource {
+  constructor(private directory: string) {}
+
+  private readIfExists(filePath: string): Buffer | null {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+  }
+
+  async fetchImageFills(fileKey: string, imageRefs: string[]): Promise<Map<string, Buffer>> {
+    const buffers = new Map<string, Buffer>();
+    imageRefs.forEach(imageRef => {
+      const buffer = this.readIfExists(path.join(this.directory, 'images', `${toFixtureSegment(imageRef)}.png`));
+      if (buffer) buffers.set(imageRef, buffer);
+    });
+    return buffers;
+  }
+
+  async renderNodes(fileKey: string, nodeIds: string[], format: 'svg' | 'png'): Promise<Map<string, Buffer>> {
+    const buffers = new Map<string, Buffer>();
+    nodeIds.forEach(nodeId => {
+      const buffer = this.readIfExists(path.join(this.directory, 'renders', `${toFixtureSegment(nodeId)}.${format}`));
+      if (buffer) buffers.set(nodeId, buffer);
+    });
+    return buffers;
+  }
+}
+
+export function createImageSource(token: string): ImageSource {
+  if (process.env.FIGMA_ASSET_FIXTURES_DIR) {
+    return new FixtureImageSource(process.env.FIGMA_ASSET_FIXTURES_DIR);
+  }
+  // Image downloads come from CDN URLs the mock API cannot serve, so offline mode reads them from the fixtures
+  if (FIGMA_API_MODE === 'mock') {
+    return new FixtureImageSource(FIGMA_FIXTURES_DIR);
+  }
+  return new FigmaImageSource(token);
+}
+
+export function collectAssetReferences(component: any) {
+  const imageRefs = new Set<string>();
+  const vectorNodes = new Map<string, string>();
+
+  function traverseNode(node: any) {
+    (node.fills || []).forEach((fill: any) => {
+      if (fill.type === 'IMAGE' && fill.imageRef && fill.visible !== false) {
+        imageRefs.add(fill.imageRef);
+      }
+    });
+
+    // Boolean operations are rendered as a whole, their operands are not exported separately
+    if (node.type === 'VECTOR' || node.type === 'BOOLEAN_OPERATION') {
+      vectorNodes.set(node.id, node.name || node.type);
+      return;
+    }
+
+    (node.children || []).forEach(traverseNode);
+  }
+
+  traverseNode(component);
+  return {
+    imageRefs: Array.from(imageRefs),
+    vectorNodes: Array.from(vectorNodes.entries()).map(([id, name]) => ({ id, name }))
+  };
+}
+
+export function getAssetPath(projectId: number, fileName: string): string {
+  return path.join(ASSETS_DIR, String(projectId), path.basename(fileName));
+}
+
+// Image fills keep the format they were uploaded in, so the type is read from the file signature
+function detectImageType(buffer: Buffer): { extension: string; contentType: string } {
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { extension: 'png', contentType: 'image/png' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return { extension: 'jpg', contentType: 'image/jpeg' };
+  }
+  if (buffer.toString('ascii', 0, 6) === 'GIF87a' || buffer.toString('ascii', 0, 6) === 'GIF89a') {
+    return { extension: 'gif', contentType: 'image/gif' };
+  }
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return { extension: 'webp', contentType: 'image/webp' };
+  }
+  return { extension: 'bin', contentType: 'application/octet-stream' };
+}
+
+function toAssetSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'asset';
+}
+
+export async function exportProjectAssets(fileKey: string, projectId: number, components: any[], source: ImageSource) {
+  const manifest: AssetManifest = {};
+  const errors: string[] = [];
+  const imageRefs = new Set<string>();
+  const vectorNodes = new Map<string, string>();
+
+  components.forEach(component => {
+    const references = collectAssetReferences(component);
+    references.imageRefs.forEach(imageRef => imageRefs.add(imageRef));
+    references.vectorNodes.forEach(node => vectorNodes.set(node.id, node.name));
+  });
+
+  fs.mkdirSync(path.join(ASSETS_DIR, String(projectId)), { recursive: true });
+
+  const store = (key: string, kind: ComponentAsset['kind'], fileName: string, contentType: string, buffer: Buffer) => {
+    fs.writeFileSync(getAssetPath(projectId, fileName), buffer);
+    manifest[key] = {
+      kind,
+      key,
+      fileName,
+      contentType,
+      url: `/api/projects/${projectId}/assets/${fileName}`
+    };
+  };
+
+  try {
+    const images = await source.fetchImageFills(fileKey, Array.from(imageRefs));
+    images.forEach((buffer, imageRef) => {
+      const { extension, contentType } = detectImageType(buffer);
+      store(imageRef, 'image', `image-${toFixtureSegment(imageRef).slice(0, 12)}.${extension}`, contentType, buffer);
+    });
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : 'Image fill export failed');
+  }
+
+  try {
+    const renders = await source.renderNodes(fileKey, Array.from(vectorNodes.keys()), 'svg');
+    renders.forEach((buffer, nodeId) => {
+      const fileName = `${toAssetSlug(vectorNodes.get(nodeId) || 'vector')}-${nodeId.replace(/[:;]/g, '-')}.svg`;
+      store(nodeId, 'vector', fileName, 'image/svg+xml', buffer);
+    });
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : 'Vector export failed');
+  }
+
+  return { manifest, errors };
+}
+
+// The subset of the project manifest a single component references
+export function selectComponentAssets(component: any, manifest: AssetManifest): ComponentAsset[] {
+  const references = collectAssetReferences(component);
+  return [...references.imageRefs, ...references.vectorNodes.map(node => node.id)]
+    .map(key => manifest[key])
+    .filter(Boolean);
+}
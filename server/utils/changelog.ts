@@ -0,0 +1,257 @@
+import type { VersionComparison } from "@shared/schema";
+import { storage } from "../storage";
+import { readComparisonData, refreshVersionComparison, type ChangeImpact, type ComponentChange, type TokenChange, type VersionBump } from "./version-diff";
+
+export const CHANGELOG_FORMATS = ['md', 'html', 'json'] as const;
+export type ChangelogFormat = typeof CHANGELOG_FORMATS[number];
+
+export interface ChangelogChange {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ChangelogEntry {
+  title: string;
+  impact: ChangeImpact;
+  changes: ChangelogChange[];
+}
+
+export interface ChangelogGroup {
+  title: string;
+  entries: ChangelogEntry[];
+}
+
+export interface Changelog {
+  comparisonId: number;
+  projectId: number;
+  projectName: string;
+  title: string;
+  fromVersion: { id: number; name: string };
+  toVersion: { id: number; name: string };
+  createdAt: string;
+  suggestedBump: VersionBump;
+  totalChanges: number;
+  groups: ChangelogGroup[];
+}
+
+const COLOR_VALUE = /^(#[0-9a-f]{3,8}|(rgba?|hsla?)\([^)]*\))$/i;
+
+// Token values are stored as objects; single values and variable aliases read better unwrapped
+function formatValue(value: any): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') return String(value);
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+
+  const keys = Object.keys(value).filter(key => value[key] !== undefined);
+  if (keys.length === 1 && keys[0] === 'value') return formatValue(value.value);
+  if (keys.length === 1 && keys[0] === 'alias') return `{${value.alias.name || value.alias.id}}`;
+  return keys.map(key => `${key}: ${formatValue(value[key])}`).join(', ');
+}
+
+function change(label: string, before?: any, after?: any): ChangelogChange {
+  return { label, before: formatValue(before), after: formatValue(after) };
+}
+
+function describeComponent(component: ComponentChange): ChangelogEntry {
+  const changes: ChangelogChange[] = [];
+  if (component.previousName) {
+    changes.push(change('name', component.previousName, component.name));
+  }
+
+  component.styleChanges.forEach(style => changes.push(change(`${style.category}: ${style.property}`, style.before, style.after)));
+  component.layers.added.forEach(layer => changes.push(change('layer added', undefined, layer.name)));
+  component.layers.removed.forEach(layer => changes.push(change('layer removed', layer.name)));
+  component.variants.added.forEach(variant => changes.push(change('variant added', undefined, variant.name)));
+  component.variants.removed.forEach(variant => changes.push(change('variant removed', variant.name)));
+  component.variants.modified.forEach(variant => {
+    if (variant.previousProperties) {
+      changes.push(change(`variant ${variant.name}: properties`, variant.previousProperties, variant.properties));
+    }
+    variant.styleChanges.forEach(style =>
+      changes.push(change(`variant ${variant.name}: ${style.property}`, style.before, style.after)));
+  });
+
+  const { added, removed, renamed, modified } = component.propertyDefinitions;
+  added.forEach(key => changes.push(change('property added', undefined, key)));
+  removed.forEach(key => changes.push(change('property removed', key)));
+  renamed.forEach(rename => changes.push(change('property renamed', rename.from, rename.to)));
+  modified.forEach(key => changes.push(change(`property ${key} changed`)));
+
+  return { title: `Updated ${component.name}`, impact: component.impact, changes };
+}
+
+function describeToken(token: TokenChange): ChangelogEntry {
+  const verb = token.change === 'added' ? 'Added' : token.change === 'removed' ? 'Removed' : 'Updated';
+  const changes = token.previousName ? [change('name', token.previousName, token.name)] : [];
+  changes.push(change('value', token.before, token.after));
+  return { title: `${verb} ${token.category} token ${token.name}`, impact: token.impact, changes };
+}
+
+export function buildChangelog(comparison: VersionComparison, projectName: string, fromName: string, toName: string): Changelog {
+  const data = readComparisonData(comparison);
+  const modifiedIds = new Set(data.changes.modified.map(component => component.id));
+
+  const components: ChangelogEntry[] = [
+    ...data.changes.removed.map(component => ({ title: `Removed ${component.name}`, impact: 'major' as const, changes: [] })),
+    ...data.changes.added.map(component => ({ title: `Added ${component.name}`, impact: 'minor' as const, changes: [] })),
+    // Renamed components with other changes are described with those changes
+    ...data.changes.renamed
+      .filter(rename => !modifiedIds.has(rename.id))
+      .map(rename => ({ title: `Renamed ${rename.from}`, impact: rename.impact, changes: [change('name', rename.from, rename.to)] })),
+    ...data.changes.modified.map(describeComponent)
+  ];
+  const tokens = data.tokenChanges.map(describeToken);
+
+  const groups = [
+    { title: 'Breaking changes', entries: [...components, ...tokens].filter(entry => entry.impact === 'major') },
+    { title: 'Components', entries: components },
+    { title: 'Tokens', entries: tokens }
+  ].filter(group => group.entries.length > 0);
+
+  return {
+    comparisonId: comparison.id,
+    projectId: comparison.projectId,
+    projectName,
+    title: `${fromName} → ${toName}`,
+    fromVersion: { id: comparison.fromVersionId, name: fromName },
+    toVersion: { id: comparison.toVersionId, name: toName },
+    createdAt: new Date(comparison.createdAt).toISOString(),
+    suggestedBump: data.summary.suggestedBump,
+    totalChanges: data.summary.totalChanges,
+    groups
+  };
+}
+
+// Versions may have been deleted since the comparison was stored, so names fall back to ids
+export async function loadChangelog(storedComparison: VersionComparison): Promise<Changelog> {
+  const comparison = await refreshVersionComparison(storedComparison);
+  const [project, fromVersion, toVersion] = await Promise.all([
+    storage.getFigmaProject(comparison.projectId),
+    storage.getFigmaVersion(comparison.fromVersionId),
+    storage.getFigmaVersion(comparison.toVersionId)
+  ]);
+
+  return buildChangelog(
+    comparison,
+    project?.name || `Project ${comparison.projectId}`,
+    fromVersion?.versionName || `Version ${comparison.fromVersionId}`,
+    toVersion?.versionName || `Version ${comparison.toVersionId}`
+  );
+}
+
+function formatMarkdownChange(item: ChangelogChange): string {
+  if (item.before === undefined && item.after === undefined) return item.label;
+  const before = item.before === undefined ? '—' : `\`${item.before}\``;
+  const after = item.after === undefined ? '—' : `\`${item.after}\``;
+  return `${item.label}: ${before} → ${after}`;
+}
+
+export function renderChangelogMarkdown(changelog: Changelog): string {
+  const lines = [
+    `# ${changelog.projectName}: ${changelog.title}`,
+    '',
+    `Suggested version bump: **${changelog.suggestedBump}** · ${changelog.totalChanges} change(s) · ${changelog.createdAt}`
+  ];
+
+  if (changelog.groups.length === 0) {
+    lines.push('', 'No changes.');
+  }
+  changelog.groups.forEach(group => {
+    lines.push('', `## ${group.title}`, '');
+    group.entries.forEach(entry => {
+      lines.push(`- **${entry.title}** (${entry.impact})`);
+      entry.changes.forEach(item => lines.push(`  - ${formatMarkdownChange(item)}`));
+    });
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatHtmlValue(value: string | undefined): string {
+  if (value === undefined) return '<span class="empty">—</span>';
+  const swatch = COLOR_VALUE.test(value)
+    ? `<span class="swatch" style="background:${escapeHtml(value)}"></span>`
+    : '';
+  return `${swatch}<code>${escapeHtml(value)}</code>`;
+}
+
+function formatHtmlChange(item: ChangelogChange): string {
+  if (item.before === undefined && item.after === undefined) return escapeHtml(item.label);
+  return `${escapeHtml(item.label)}: ${formatHtmlValue(item.before)} → ${formatHtmlValue(item.after)}`;
+}
+
+// The body alone is used as Atom entry content; the endpoint wraps it in a page
+export function renderChangelogHtmlBody(changelog: Changelog): string {
+  const sections = changelog.groups.map(group => [
+    `<h2>${escapeHtml(group.title)}</h2>`,
+    '<ul>',
+    ...group.entries.map(entry => {
+      const changes = entry.changes.length > 0
+        ? `<ul>${entry.changes.map(item => `<li>${formatHtmlChange(item)}</li>`).join('')}</ul>`
+        : '';
+      return `<li><strong>${escapeHtml(entry.title)}</strong> <span class="impact impact-${entry.impact}">${entry.impact}</span>${changes}</li>`;
+    }),
+    '</ul>'
+  ].join('\n'));
+
+  return [
+    `<p>Suggested version bump: <strong>${changelog.suggestedBump}</strong> · ${changelog.totalChanges} change(s)</p>`,
+    ...(sections.length > 0 ? sections : ['<p>No changes.</p>'])
+  ].join('\n');
+}
+
+export function renderChangelogHtml(changelog: Changelog): string {
+  const title = escapeHtml(`${changelog.projectName}: ${changelog.title}`);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; line-height: 1.5; }
+  code { background: #f4f4f5; padding: 0 0.25rem; border-radius: 0.25rem; }
+  .swatch { display: inline-block; width: 0.875rem; height: 0.875rem; margin-right: 0.25rem; border: 1px solid #d4d4d8; border-radius: 0.125rem; vertical-align: middle; }
+  .impact { font-size: 0.75rem; padding: 0 0.375rem; border-radius: 9999px; background: #e4e4e7; }
+  .impact-major { background: #fee2e2; color: #991b1b; }
+  .impact-minor { background: #dbeafe; color: #1e40af; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+${renderChangelogHtmlBody(changelog)}
+</body>
+</html>
+`;
+}
+
+export function renderChangelogFeed(projectName: string, feedUrl: string, entries: { changelog: Changelog; url: string }[]): string {
+  const updated = entries[0]?.changelog.createdAt || new Date().toISOString();
+  const feedEntries = entries.map(({ changelog, url }) => `  <entry>
+    <id>${escapeHtml(url)}</id>
+    <title>${escapeHtml(changelog.title)}</title>
+    <updated>${changelog.createdAt}</updated>
+    <link rel="alternate" type="text/html" href="${escapeHtml(`${url}?format=html`)}"/>
+    <summary>Suggested version bump: ${changelog.suggestedBump}, ${changelog.totalChanges} change(s)</summary>
+    <content type="html">${escapeHtml(renderChangelogHtmlBody(changelog))}</content>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeHtml(feedUrl)}</id>
+  <title>${escapeHtml(`${projectName} design changes`)}</title>
+  <updated>${updated}</updated>
+  <author><name>${escapeHtml(projectName)}</name></author>
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(feedUrl)}"/>
+${feedEntries.join('\n')}
+</feed>
+`;
+}
@@ -0,0 +1,72 @@
+import type { GeneratedComponent } from "@shared/schema";
+import { storage } from "../storage";
+import { selectComponentAssets, type AssetManifest } from "./assets";
+import { generateIconComponents } from "./icons";
+import { collectComponentDependencies, generateReactComponentCode, sortComponentsByDependencies } from "./figma";
+
+export interface GenerationTarget {
+  projectId: number;
+  sourceType: string;
+  // Tags the rows as generated from a stored figma_versions snapshot
+  versionId?: number;
+}
+
+// Dependencies are saved first so each row can point at the components it imports
+export async function saveGeneratedComponents(components: any[], designTokens: any, manifest: AssetManifest, target: GenerationTarget) {
+  const generatedComponents: GeneratedComponent[] = [];
+  const savedIdsByNodeId = new Map<string, number>();
+
+  for (const component of sortComponentsByDependencies(components)) {
+    const generatedCode = {
+      ...generateReactComponentCode(component, designTokens, { components, assets: manifest }),
+      assets: selectComponentAssets(component, manifest)
+    };
+    const dependencies = collectComponentDependencies(component, components).map(nodeId => ({
+      figmaNodeId: nodeId,
+      componentId: savedIdsByNodeId.get(nodeId) ?? null
+    }));
+
+    const savedComponent = await storage.createGeneratedComponent({
+      name: component.name,
+      projectId: target.projectId,
+      sourceType: target.sourceType,
+      sourceData: component,
+      generatedCode,
+      designTokens,
+      metadata: {
+        figmaNodeId: component.id,
+        dependencies,
+        extractedAt: new Date().toISOString()
+      },
+      versionId: target.versionId ?? null,
+      isPublic: false
+    });
+
+    savedIdsByNodeId.set(component.id, savedComponent.id);
+    generatedComponents.push(savedComponent);
+  }
+
+  return generatedComponents;
+}
+
+// Icons are stored alongside the components but under their own source type
+export async function saveIconComponents(figmaData: any, target: Omit<GenerationTarget, 'sourceType'>) {
+  const icons = generateIconComponents(figmaData);
+  for (const icon of icons) {
+    await storage.createGeneratedComponent({
+      name: icon.componentName,
+      projectId: target.projectId,
+      sourceType: 'figma_icon',
+      sourceData: { id: icon.nodeId, name: icon.name },
+      generatedCode: { react: icon.react, svg: icon.svg, fileName: icon.fileName },
+      designTokens: null,
+      metadata: {
+        figmaNodeId: icon.nodeId,
+        extractedAt: new Date().toISOString()
+      },
+      versionId: target.versionId ?? null,
+      isPublic: false
+    });
+  }
+  return icons.length;
+}
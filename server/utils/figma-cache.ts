@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import { getFigmaClient } from "./figma-client";
+import { fetchFigmaFile, type FetchFigmaFileOptions } from "./figma";
+
+// File responses are cached on disk, one JSON file per file key, node and version
+const CACHE_DIR = process.env.FIGMA_CACHE_DIR || path.resolve("storage", "figma-cache");
+
+// Unset, empty, negative or non-numeric values fall back to the default
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value === undefined || value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+// A TTL of 0 turns the cache off
+const CACHE_TTL_MS = numberFromEnv(process.env.FIGMA_CACHE_TTL_MS, 24 * 60 * 60 * 1000);
+const CACHE_MAX_BYTES = numberFromEnv(process.env.FIGMA_CACHE_MAX_BYTES, 200 * 1024 * 1024);
+
+export interface CachedFigmaFile {
+  figmaData: any;
+  cacheHit: boolean;
+  version?: string;
+}
+
+function toCacheSegment(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]+/g, '-');
+}
+
+function getCachePath(fileId: string, version: string, options: FetchFigmaFileOptions): string {
+  const parts = [fileId];
+  if (options.nodeId) parts.push(`node-${options.nodeId}`);
+  if (options.geometry) parts.push('geometry');
+  parts.push(version);
+  return path.join(CACHE_DIR, `${parts.map(toCacheSegment).join('_')}.json`);
+}
+
+function readCacheEntry(cachePath: string): any | null {
+  try {
+    const stats = fs.statSync(cachePath);
+    if (Date.now() - stats.mtimeMs > CACHE_TTL_MS) {
+      fs.unlinkSync(cachePath);
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+// Drops expired entries, then the oldest ones until the cache fits its size limit
+function pruneCache() {
+  const entries = fs.readdirSync(CACHE_DIR)
+    .filter(fileName => fileName.endsWith('.json'))
+    .map(fileName => {
+      const filePath = path.join(CACHE_DIR, fileName);
+      const stats = fs.statSync(filePath);
+      return { filePath, size: stats.size, cachedAt: stats.mtimeMs };
+    });
+
+  let totalSize = 0;
+  const live = entries.filter(entry => {
+    if (Date.now() - entry.cachedAt > CACHE_TTL_MS) {
+      fs.unlinkSync(entry.filePath);
+      return false;
+    }
+    totalSize += entry.size;
+    return true;
+  });
+
+  live.sort((a, b) => a.cachedAt - b.cachedAt);
+  while (totalSize > CACHE_MAX_BYTES && live.length > 0) {
+    const entry = live.shift()!;
+    fs.unlinkSync(entry.filePath);
+    totalSize -= entry.size;
+  }
+}
+
+function writeCacheEntry(cachePath: string, figmaData: any) {
+  try {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    fs.writeFileSync(cachePath, JSON.stringify(figmaData));
+    pruneCache();
+  } catch (error) {
+    console.warn("Failed to write Figma cache entry:", error);
+  }
+}
+
+// A depth-1 request is enough to learn the current version; the full document is only
+// downloaded when that version is not cached yet
+export async function fetchFigmaFileCached(fileId: string, token: string, options: FetchFigmaFileOptions = {}): Promise<CachedFigmaFile> {
+  if (CACHE_TTL_MS <= 0) {
+    return { figmaData: await fetchFigmaFile(fileId, token, options), cacheHit: false };
+  }
+
+  const client = getFigmaClient();
+  const head = options.nodeId
+    ? await client.getFileNodes(fileId, [options.nodeId], token, { depth: '1' })
+    : await client.getFile(fileId, token, { depth: '1' });
+  const version = head.version || head.lastModified;
+  if (!version) {
+    return { figmaData: await fetchFigmaFile(fileId, token, options), cacheHit: false };
+  }
+
+  const cachePath = getCachePath(fileId, String(version), options);
+  const cached = readCacheEntry(cachePath);
+  if (cached) {
+    return { figmaData: cached, cacheHit: true, version };
+  }
+
+  // The file can change between the two requests, so the entry is keyed on the version actually downloaded
+  const figmaData = await fetchFigmaFile(fileId, token, options);
+  const fetchedVersion = figmaData.version || figmaData.lastModified;
+  if (!fetchedVersion) {
+    return { figmaData, cacheHit: false };
+  }
+
+  writeCacheEntry(getCachePath(fileId, String(fetchedVersion), options), figmaData);
+  return { figmaData, cacheHit: false, version: fetchedVersion };
+}
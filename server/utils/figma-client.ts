@@ -0,0 +1,248 @@
+import { FIGMA_API_MODE, FIGMA_FIXTURES_DIR, MOCK_FIGMA_API_PATH, recordFixture } from "./figma-fixtures";
+
+const FIGMA_API_URL = 'https://api.figma.com/v1';
+
+export type FigmaErrorCode = 'unauthorized' | 'not_found' | 'rate_limited' | 'timeout' | 'network' | 'server' | 'bad_request' | 'invalid_response';
+
+// Thrown for every failed Figma request so callers can branch on the code instead of parsing messages
+export class FigmaApiError extends Error {
+  constructor(
+    message: string,
+    public code: FigmaErrorCode,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'FigmaApiError';
+  }
+
+  get retryable(): boolean {
+    return this.code === 'rate_limited' || this.code === 'timeout' || this.code === 'network' || this.code === 'server';
+  }
+}
+
+export interface FigmaClientOptions {
+  fetch?: typeof fetch;
+  baseUrl?: string;
+  // Successful responses are saved here as fixtures for the mock API
+  recordDir?: string;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+  // Concurrent requests allowed per token; Figma rate limits are applied per token
+  concurrency?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface TokenQueue {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+function errorForStatus(status: number, statusText: string, retryAfterMs?: number): FigmaApiError {
+  if (status === 401 || status === 403) {
+    return new FigmaApiError('Invalid Figma token or insufficient permissions. Please check your API token.', 'unauthorized', status);
+  }
+  if (status === 404) {
+    return new FigmaApiError('Figma file not found. Please check the file ID and ensure you have access.', 'not_found', status);
+  }
+  if (status === 429) {
+    return new FigmaApiError('Rate limit exceeded. Please try again in a few minutes.', 'rate_limited', status, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new FigmaApiError(`Figma API error: ${status} ${statusText}`, 'server', status);
+  }
+  return new FigmaApiError(`Figma API error: ${status} ${statusText}`, 'bad_request', status);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export class FigmaClient {
+  private fetchImpl: typeof fetch;
+  private baseUrl: string;
+  private recordDir?: string;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private timeoutMs: number;
+  private concurrency: number;
+  private sleep: (ms: number) => Promise<void>;
+  private queues = new Map<string, TokenQueue>();
+
+  constructor(options: FigmaClientOptions = {}) {
+    this.fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+    this.baseUrl = options.baseUrl || FIGMA_API_URL;
+    this.recordDir = options.recordDir;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.concurrency = options.concurrency ?? 4;
+    this.sleep = options.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  async request<T = any>(endpoint: string, token: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withTokenSlot(token, () => this.send<T>(endpoint, token));
+      } catch (error) {
+        // Only Figma failures are retried; anything else, such as a failed fixture write, is a local bug
+        if (!(error instanceof FigmaApiError) || !error.retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+        await this.sleep(this.retryDelay(attempt, error.retryAfterMs));
+      }
+    }
+  }
+
+  getFile(fileId: string, token: string, params: Record<string, string> = {}) {
+    return this.request(`/files/${fileId}${this.query(params)}`, token);
+  }
+
+  getFileNodes(fileId: string, nodeIds: string[], token: string, params: Record<string, string> = {}) {
+    return this.request(`/files/${fileId}/nodes${this.query({ ids: nodeIds.join(','), ...params })}`, token);
+  }
+
+  getLocalVariables(fileId: string, token: string) {
+    return this.request(`/files/${fileId}/variables/local`, token);
+  }
+
+  getImageFills(fileId: string, token: string) {
+    return this.request(`/files/${fileId}/images`, token);
+  }
+
+  renderImages(fileId: string, nodeIds: string[], format: string, token: string, params: Record<string, string> = {}) {
+    return this.request(`/images/${fileId}${this.query({ ids: nodeIds.join(','), format, ...params })}`, token);
+  }
+
+  private query(params: Record<string, string>): string {
+    const search = new URLSearchParams(params).toString();
+    return search ? `?${search}` : '';
+  }
+
+  private async send<T>(endpoint: string, token: string): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    const timedOut = () => new FigmaApiError(`Figma API request timed out after ${this.timeoutMs}ms`, 'timeout');
+
+    let data: T;
+    try {
+      let response: Response;
+      try {
+        response = await this.fetchImpl(`${this.baseUrl}${endpoint}`, {
+          headers: {
+            'X-Figma-Token': token,
+            'Content-Type': 'application/json'
+          },
+          signal: controller.signal
+        });
+      } catch (error) {
+        if (controller.signal.aborted) throw timedOut();
+        throw new FigmaApiError('Failed to connect to Figma API. Please check your internet connection.', 'network');
+      }
+
+      if (!response.ok) {
+        throw errorForStatus(response.status, response.statusText, parseRetryAfter(response.headers.get('retry-after')));
+      }
+      try {
+        data = await response.json();
+      } catch (error) {
+        if (controller.signal.aborted) throw timedOut();
+        throw new FigmaApiError('Figma API returned a response that is not valid JSON', 'invalid_response', response.status);
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (this.recordDir) {
+      recordFixture(this.recordDir, endpoint, data);
+    }
+    return data;
+  }
+
+  // Exponential backoff with jitter, unless Figma said how long to wait
+  private retryDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, this.maxDelayMs);
+    }
+    const delay = this.baseDelayMs * 2 ** attempt;
+    return Math.min(delay + Math.random() * delay * 0.2, this.maxDelayMs);
+  }
+
+  private async withTokenSlot<T>(token: string, task: () => Promise<T>): Promise<T> {
+    let queue = this.queues.get(token);
+    if (!queue) {
+      queue = { active: 0, waiting: [] };
+      this.queues.set(token, queue);
+    }
+
+    // A finishing request hands its slot straight to the next waiter
+    if (queue.active >= this.concurrency) {
+      await new Promise<void>(resolve => queue!.waiting.push(resolve));
+    } else {
+      queue.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = queue.waiting.shift();
+      if (next) {
+        next();
+      } else if (--queue.active === 0) {
+        this.queues.delete(token);
+      }
+    }
+  }
+}
+
+// Status to answer with when a route passes a Figma failure on to the browser
+export function httpStatusForFigmaError(error: FigmaApiError): number {
+  switch (error.code) {
+    case 'unauthorized':
+      return 401;
+    case 'not_found':
+      return 404;
+    case 'rate_limited':
+      return 429;
+    case 'timeout':
+      return 504;
+    default:
+      return 502;
+  }
+}
+
+// Stored on failed jobs so the client can tell a retryable failure from a permanent one
+export function figmaErrorDetails(error: unknown) {
+  if (!(error instanceof FigmaApiError)) return null;
+  return { errorCode: error.code, retryable: error.retryable, retryAfterMs: error.retryAfterMs };
+}
+
+// The mock API is mounted on this server, which listens on 8080 (see server/index.ts)
+function clientOptionsFromEnv(): FigmaClientOptions {
+  const mockBaseUrl = FIGMA_API_MODE === 'mock' ? `http://127.0.0.1:8080${MOCK_FIGMA_API_PATH}` : undefined;
+  return {
+    baseUrl: process.env.FIGMA_API_BASE_URL || mockBaseUrl,
+    recordDir: FIGMA_API_MODE === 'record' ? FIGMA_FIXTURES_DIR : undefined
+  };
+}
+
+let figmaClient = new FigmaClient(clientOptionsFromEnv());
+
+export function getFigmaClient(): FigmaClient {
+  return figmaClient;
+}
+
+// Lets tests and scripts swap in a client with a fake fetch or different limits
+export function setFigmaClient(client: FigmaClient) {
+  figmaClient = client;
+}
@@ -0,0 +1,90 @@
+import express from "express";
+import fs from "fs";
+import path from "path";
+
+// 'mock' serves recorded fixtures through the mock API instead of calling Figma,
+// 'record' calls Figma and saves every response as a fixture
+export const FIGMA_API_MODE = process.env.FIGMA_API_MODE || 'live';
+export const FIGMA_FIXTURES_DIR = process.env.FIGMA_FIXTURES_DIR || path.resolve("fixtures", "figma");
+export const MOCK_FIGMA_API_PATH = '/__figma/v1';
+
+// Dot-only segments are renamed so a segment can never step out of the fixture directory
+export function toFixtureSegment(value: string): string {
+  const segment = value.replace(/[^a-zA-Z0-9.-]+/g, '-');
+  return /^\.+$/.test(segment) ? segment.replace(/\./g, '-') : segment;
+}
+
+// Responses are stored under api/ mirroring the endpoint, with the sorted query string in the file name,
+// e.g. /files/abc/nodes?ids=1:2 -> api/files/abc/nodes__ids=1-3A2.json
+export function getFixturePath(directory: string, endpoint: string): string {
+  const [pathname, search = ''] = endpoint.split('?');
+  const params = new URLSearchParams(search);
+  params.sort();
+  const query = params.toString().replace(/[^a-zA-Z0-9=.-]+/g, '-');
+  const segments = pathname.split('/').filter(Boolean).map(toFixtureSegment);
+  return path.join(directory, 'api', `${segments.join(path.sep)}${query ? `__${query}` : ''}.json`);
+}
+
+export function readFixture(directory: string, endpoint: string): any | null {
+  const fixturePath = getFixturePath(directory, endpoint);
+  return fs.existsSync(fixturePath) ? JSON.parse(fs.readFileSync(fixturePath, 'utf8')) : null;
+}
+
+export function recordFixture(directory: string, endpoint: string, data: any) {
+  const fixturePath = getFixturePath(directory, endpoint);
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, JSON.stringify(data, null, 2));
+}
+
+function findNode(node: any, nodeId: string): any | null {
+  if (node.id === nodeId) return node;
+  for (const child of node.children || []) {
+    const found = findNode(child, nodeId);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Node requests without a recording of their own are answered from the recorded file
+function nodesFromFileFixture(directory: string, fileKey: string, ids: string[]): any | null {
+  const file = readFixture(directory, `/files/${fileKey}`);
+  if (!file) return null;
+
+  const nodes: Record<string, any> = {};
+  ids.forEach(id => {
+    const node = file.document && findNode(file.document, id);
+    nodes[id] = node ? { document: node, components: file.components || {}, styles: file.styles || {} } : null;
+  });
+
+  return {
+    name: file.name,
+    lastModified: file.lastModified,
+    thumbnailUrl: file.thumbnailUrl,
+    version: file.version,
+    nodes
+  };
+}
+
+// Answers Figma REST requests from fixtures; mount it and point FIGMA_API_BASE_URL at the mount path
+export function createMockFigmaApi(directory: string) {
+  const app = express();
+
+  app.get('*', (req, res) => {
+    if (!req.header('X-Figma-Token')) {
+      return res.status(403).json({ status: 403, err: "Invalid token" });
+    }
+
+    // An exact recording wins; otherwise query options such as depth or geometry are ignored
+    const nodesMatch = req.path.match(/^\/files\/([^/]+)\/nodes$/);
+    const data = readFixture(directory, req.url)
+      ?? (nodesMatch ? nodesFromFileFixture(directory, nodesMatch[1], String(req.query.ids || '').split(',').filter(Boolean)) : null)
+      ?? readFixture(directory, req.path);
+
+    if (!data) {
+      return res.status(404).json({ status: 404, err: `No fixture for ${req.path}` });
+    }
+    res.json(data);
+  });
+
+  return app;
+}
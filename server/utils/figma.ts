@@ -1,98 +1,206 @@
-
+import type { AssetManifest } from "./assets";
+import { FigmaApiError, getFigmaClient } from "./figma-client";
 // Figma API integration utilities
-export async function fetchFigmaFile(fileId: string, token: string) {
-  try {
-    const response = await fetch(`https://api.figma.com/v1/files/${fileId}`, {
-      headers: {
-        'X-Figma-Token': token,
-        'Content-Type': 'application/json'
-      }
-    });
+// Share links carry the node as node-id=12-345 (older links use 12:345); instance ids have several pairs
+export function parseFigmaUrl(url: string): { fileId: string; nodeId?: string } | null {
+  const fileIdMatch = url.match(/\/(file|design)\/([a-zA-Z0-9]+)/);
+  if (!fileIdMatch) return null;
 
-    if (!response.ok) {
-      if (response.status === 403) {
-        throw new Error('Invalid Figma token or insufficient permissions. Please check your API token.');
-      }
-      if (response.status === 404) {
-        throw new Error('Figma file not found. Please check the file ID and ensure you have access.');
-      }
-      if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again in a few minutes.');
-      }
-      throw new Error(`Figma API error: ${response.status} ${response.statusText}`);
-    }
+  const nodeIdMatch = url.match(/[?&]node-id=([^&#]+)/);
+  const nodeId = nodeIdMatch ? decodeURIComponent(nodeIdMatch[1]).replace(/-/g, ':') : undefined;
+  return { fileId: fileIdMatch[2], nodeId };
+}
 
-    const data = await response.json();
-    return data;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
+export interface FetchFigmaFileOptions {
+  // Include vector path data (fillGeometry/strokeGeometry), needed for icon generation
+  geometry?: boolean;
+  // Fetch only this subtree through the nodes endpoint
+  nodeId?: string;
+}
+
+export async function fetchFigmaFile(fileId: string, token: string, options: FetchFigmaFileOptions = {}) {
+  const client = getFigmaClient();
+  const params: Record<string, string> = options.geometry ? { geometry: 'paths' } : {};
+
+  if (options.nodeId) {
+    const data = await client.getFileNodes(fileId, [options.nodeId], token, params);
+    return toFileFromNodes(data, options.nodeId);
+  }
+  return client.getFile(fileId, token, params);
+}
+
+// Reshapes a nodes response like a file response, with the node as the document, so extraction works unchanged
+function toFileFromNodes(data: any, nodeId: string) {
+  const node = data.nodes?.[nodeId];
+  if (!node) {
+    throw new FigmaApiError(`Figma node ${nodeId} not found. Please check the node-id in the URL.`, 'not_found', 404);
+  }
+
+  return {
+    name: data.name,
+    lastModified: data.lastModified,
+    thumbnailUrl: data.thumbnailUrl,
+    version: data.version,
+    document: node.document,
+    components: node.components || {},
+    componentSets: node.componentSets || {},
+    styles: node.styles || {}
+  };
+}
+
+function isFigmaNode(value: any): boolean {
+  return !!value && typeof value === 'object' && typeof value.id === 'string' && typeof value.type === 'string';
+}
+
+// Uploaded JSON comes as a saved file response, a saved nodes response, a plugin JSON_REST_V1
+// export ({ document, components, styles }) or a bare node; all are reshaped like a file response
+export function normalizeFigmaDocument(json: any, fallbackName = 'Imported File') {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error('Expected a JSON object exported from Figma.');
+  }
+
+  if (json.nodes && typeof json.nodes === 'object' && !json.document) {
+    const entries = Object.values(json.nodes).filter((entry: any) => isFigmaNode(entry?.document)) as any[];
+    if (entries.length === 0) {
+      throw new Error('The nodes response does not contain any nodes.');
     }
-    throw new Error('Failed to connect to Figma API. Please check your internet connection.');
+    return {
+      name: json.name || fallbackName,
+      lastModified: json.lastModified,
+      thumbnailUrl: json.thumbnailUrl,
+      version: json.version,
+      document: { id: '0:0', name: 'Document', type: 'DOCUMENT', children: entries.map(entry => entry.document) },
+      components: Object.assign({}, ...entries.map(entry => entry.components || {})),
+      styles: Object.assign({}, ...entries.map(entry => entry.styles || {}))
+    };
+  }
+
+  if (isFigmaNode(json.document)) {
+    return { ...json, name: json.name || json.document.name || fallbackName, styles: json.styles || {} };
   }
+
+  if (isFigmaNode(json)) {
+    return { name: json.name || fallbackName, document: json, components: {}, styles: {} };
+  }
+
+  throw new Error('Unrecognized Figma JSON: expected a document, nodes response or node with id and type.');
+}
+
+function toExtractedComponent(node: any) {
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    styles: extractNodeStyles(node),
+    absoluteBoundingBox: node.absoluteBoundingBox,
+    ...pickLayoutProperties(node),
+    ...pickVariableBindings(node),
+    children: node.children || [],
+    propertyDefinitions: node.componentPropertyDefinitions || {},
+    variants: [],
+    designTokens: extractDesignTokensFromNode(node)
+  };
+}
+
+// A fetched node or uploaded node is the document itself; a nodes response wraps its nodes in a
+// document whose children are not pages
+function getSelectionRoots(document: any): any[] {
+  if (document.type !== 'DOCUMENT') return [document];
+  return (document.children || []).filter((child: any) => child.type !== 'CANVAS');
 }
 
 export async function extractComponentsFromFigmaData(figmaData: any) {
   const components: any[] = [];
   
-  function traverseNode(node: any) {
-    if (node.type === 'COMPONENT') {
-      components.push({
-        id: node.id,
-        name: node.name,
-        type: node.type,
-        styles: extractNodeStyles(node),
-        absoluteBoundingBox: node.absoluteBoundingBox,
-        children: node.children || [],
-        variants: [],
-        designTokens: extractDesignTokensFromNode(node)
-      });
+  function traverseNode(node: any, parent?: any) {
+    // Variants are extracted as part of their component set
+    if (node.type === 'COMPONENT' && parent?.type !== 'COMPONENT_SET') {
+      components.push(toExtractedComponent(node));
     }
     
     if (node.type === 'COMPONENT_SET') {
       const variants = node.children?.filter((child: any) => child.type === 'COMPONENT') || [];
       components.push({
-        id: node.id,
-        name: node.name,
-        type: node.type,
-        styles: extractNodeStyles(node),
-        absoluteBoundingBox: node.absoluteBoundingBox,
-        children: node.children || [],
+        ...toExtractedComponent(node),
         variants: variants.map((variant: any) => ({
           id: variant.id,
           name: variant.name,
-          properties: variant.componentPropertyDefinitions || {},
+          properties: parseVariantName(variant.name),
           styles: extractNodeStyles(variant)
-        })),
-        designTokens: extractDesignTokensFromNode(node)
+        }))
       });
     }
     
     if (node.children) {
-      node.children.forEach(traverseNode);
+      node.children.forEach((child: any) => traverseNode(child, node));
     }
   }
 
   if (figmaData.document) {
-    traverseNode(figmaData.document);
+    // A selected frame without components of its own is generated as a component
+    getSelectionRoots(figmaData.document).forEach(root => {
+      const found = components.length;
+      traverseNode(root);
+      if (components.length === found) {
+        components.push(toExtractedComponent(root));
+      }
+    });
+    if (figmaData.document.type === 'DOCUMENT') {
+      (figmaData.document.children || [])
+        .filter((child: any) => child.type === 'CANVAS')
+        .forEach((page: any) => traverseNode(page, figmaData.document));
+    }
   }
 
   return components;
 }
 
-function extractNodeStyles(node: any) {
+// Variant components are named like "Size=md, State=hover"
+function parseVariantName(name: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  (name || '').split(',').forEach(pair => {
+    const [key, ...value] = pair.split('=');
+    if (key && value.length > 0) {
+      properties[key.trim()] = value.join('=').trim();
+    }
+  });
+  return properties;
+}
+
+const LAYOUT_PROPERTIES = [
+  'layoutMode', 'layoutWrap', 'itemSpacing', 'counterAxisSpacing',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'primaryAxisAlignItems', 'counterAxisAlignItems', 'primaryAxisSizingMode', 'counterAxisSizingMode'
+];
+
+// Components keep their container layout so children can be generated against it
+function pickLayoutProperties(node: any) {
+  const layout: any = {};
+  LAYOUT_PROPERTIES.forEach(property => {
+    if (node[property] !== undefined) layout[property] = node[property];
+  });
+  return layout;
+}
+
+// The paints are kept with their bindings so generated styles can reference variables
+function pickVariableBindings(node: any) {
+  if (!node.boundVariables && !(node.fills || []).some((paint: any) => paint.boundVariables) &&
+      !(node.strokes || []).some((paint: any) => paint.boundVariables)) {
+    return {};
+  }
+  return { boundVariables: node.boundVariables || {}, fills: node.fills || [], strokes: node.strokes || [] };
+}
+
+export function extractNodeStyles(node: any, parent?: any) {
   const styles: any = {};
   
   if (node.fills && node.fills.length > 0) {
-    const fill = node.fills[0];
-    if (fill.type === 'SOLID') {
-      styles.backgroundColor = rgbaToHex(fill.color, fill.opacity);
-    }
+    Object.assign(styles, extractFillStyles(node));
   }
   
   if (node.strokes && node.strokes.length > 0) {
-    const stroke = node.strokes[0];
-    if (stroke.type === 'SOLID') {
+    const stroke = node.strokes.find((paint: any) => paint.visible !== false);
+    if (stroke && stroke.type === 'SOLID') {
       styles.borderColor = rgbaToHex(stroke.color, stroke.opacity);
       styles.borderWidth = node.strokeWeight || 1;
     }
@@ -102,17 +210,554 @@ function extractNodeStyles(node: any) {
     styles.borderRadius = node.cornerRadius;
   }
   
-  if (node.layoutMode) {
-    styles.display = 'flex';
-    styles.flexDirection = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
-    if (node.itemSpacing) {
-      styles.gap = node.itemSpacing;
-    }
+  if (isAutoLayout(node)) {
+    Object.assign(styles, extractAutoLayoutStyles(node));
+  }
+
+  Object.assign(styles, extractSizingStyles(node, parent));
+
+  if (isAbsolutelyPositioned(node, parent)) {
+    Object.assign(styles, extractConstraintStyles(node, parent));
+  }
+  if (CONTAINER_NODE_TYPES.has(node.type) && !isAutoLayout(node) && node.children?.length > 0 && !styles.position) {
+    styles.position = 'relative';
+  }
+
+  if (node.type === 'TEXT' && node.style) {
+    Object.assign(styles, extractTypographyStyles(node.style));
+  }
+
+  if (node.effects && node.effects.length > 0) {
+    Object.assign(styles, extractEffectStyles(node));
+  }
+
+  if (CSS_BLEND_MODES.has(toCssBlendMode(node.blendMode))) {
+    styles.mixBlendMode = toCssBlendMode(node.blendMode);
+  }
+
+  if (node.opacity !== undefined && node.opacity < 1) {
+    styles.opacity = roundTo(node.opacity);
+  }
+
+  // Frames clip their children only when "Clip content" is on
+  if (node.clipsContent && CONTAINER_NODE_TYPES.has(node.type)) {
+    styles.overflow = 'hidden';
   }
   
   return styles;
 }
 
+const CSS_BLEND_MODES = new Set([
+  'multiply', 'screen', 'overlay', 'darken', 'lighten', 'color-dodge', 'color-burn', 'hard-light',
+  'soft-light', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+]);
+
+const IMAGE_SCALE_MODES: Record<string, { size: string; repeat: string }> = {
+  FILL: { size: 'cover', repeat: 'no-repeat' },
+  FIT: { size: 'contain', repeat: 'no-repeat' },
+  CROP: { size: 'cover', repeat: 'no-repeat' },
+  TILE: { size: 'auto', repeat: 'repeat' }
+};
+
+interface BackgroundLayer {
+  image: string;
+  position?: string;
+  size?: string;
+  repeat?: string;
+  blendMode?: string;
+}
+
+function toCssBlendMode(blendMode: string | undefined): string {
+  return (blendMode || '').toLowerCase().replace(/_/g, '-');
+}
+
+function roundTo(value: number, precision: number = 2): number {
+  const factor = Math.pow(10, precision);
+  return Math.round(value * factor) / factor;
+}
+
+export function imagePlaceholderUrl(imageRef: string): string {
+  return `figma-image:${imageRef}`;
+}
+
+// CSS angles start at 12 o'clock and run clockwise; handle positions are normalized to the node box
+function gradientAngle(from: any, to: any, width: number, height: number): number {
+  const dx = (to.x - from.x) * width;
+  const dy = (to.y - from.y) * height;
+  return (Math.atan2(dx, -dy) * 180 / Math.PI + 360) % 360;
+}
+
+function formatGradientStops(paint: any, toPosition: (position: number) => number): string {
+  const paintOpacity = paint.opacity ?? 1;
+  return (paint.gradientStops || [])
+    .map((stop: any) => `${rgbaToHex(stop.color, (stop.color?.a ?? 1) * paintOpacity)} ${roundTo(toPosition(stop.position) * 100)}%`)
+    .join(', ');
+}
+
+function formatLinearGradient(paint: any, width: number, height: number): string {
+  const [start, end] = paint.gradientHandlePositions;
+  const angle = gradientAngle(start, end, width, height);
+  const radians = angle * Math.PI / 180;
+  const ux = Math.sin(radians);
+  const uy = -Math.cos(radians);
+  const lineLength = Math.abs(width * ux) + Math.abs(height * uy) || 1;
+
+  // Project the Figma handles onto the CSS gradient line so stop offsets survive the conversion
+  const project = (point: any) => ((point.x - 0.5) * width * ux + (point.y - 0.5) * height * uy) / lineLength + 0.5;
+  const startOffset = project(start);
+  const endOffset = project(end);
+
+  const stops = formatGradientStops(paint, position => startOffset + position * (endOffset - startOffset));
+  return `linear-gradient(${roundTo(angle)}deg, ${stops})`;
+}
+
+function formatRadialGradient(paint: any): string {
+  const [center, radiusX, radiusY] = paint.gradientHandlePositions;
+  const rx = Math.hypot(radiusX.x - center.x, radiusX.y - center.y) * 100;
+  const ry = Math.hypot(radiusY.x - center.x, radiusY.y - center.y) * 100;
+  const stops = formatGradientStops(paint, position => position);
+  return `radial-gradient(ellipse ${roundTo(rx)}% ${roundTo(ry)}% at ${roundTo(center.x * 100)}% ${roundTo(center.y * 100)}%, ${stops})`;
+}
+
+function formatAngularGradient(paint: any, width: number, height: number): string {
+  const [center, start] = paint.gradientHandlePositions;
+  const angle = gradientAngle(center, start, width, height);
+  const stops = formatGradientStops(paint, position => position);
+  return `conic-gradient(from ${roundTo(angle)}deg at ${roundTo(center.x * 100)}% ${roundTo(center.y * 100)}%, ${stops})`;
+}
+
+// CSS has no diamond gradient: each quadrant gets a corner-to-corner linear gradient, whose
+// isolines run parallel to the opposite diagonal. The diamond's edge sits halfway along that line.
+function formatDiamondGradient(paint: any): BackgroundLayer[] {
+  const stops = formatGradientStops(paint, position => position / 2);
+  return ['top left', 'top right', 'bottom left', 'bottom right'].map(corner => ({
+    image: `linear-gradient(to ${corner}, ${stops})`,
+    position: corner,
+    size: '50% 50%',
+    repeat: 'no-repeat'
+  }));
+}
+
+function paintToBackgroundLayers(paint: any, width: number, height: number): BackgroundLayer[] {
+  const blendMode = CSS_BLEND_MODES.has(toCssBlendMode(paint.blendMode)) ? toCssBlendMode(paint.blendMode) : undefined;
+  let layers: BackgroundLayer[] = [];
+
+  switch (paint.type) {
+    case 'SOLID': {
+      const hex = rgbaToHex(paint.color, paint.opacity ?? 1);
+      layers = [{ image: `linear-gradient(${hex}, ${hex})` }];
+      break;
+    }
+    case 'GRADIENT_LINEAR':
+      layers = [{ image: formatLinearGradient(paint, width, height) }];
+      break;
+    case 'GRADIENT_RADIAL':
+      layers = [{ image: formatRadialGradient(paint) }];
+      break;
+    case 'GRADIENT_ANGULAR':
+      layers = [{ image: formatAngularGradient(paint, width, height) }];
+      break;
+    case 'GRADIENT_DIAMOND':
+      layers = formatDiamondGradient(paint);
+      break;
+    case 'IMAGE': {
+      if (!paint.imageRef) break;
+      const scaleMode = IMAGE_SCALE_MODES[paint.scaleMode] || IMAGE_SCALE_MODES.FILL;
+      layers = [{
+        image: `url(${imagePlaceholderUrl(paint.imageRef)})`,
+        position: 'center',
+        size: paint.scaleMode === 'TILE' && paint.scalingFactor ? `${roundTo(paint.scalingFactor * 100)}%` : scaleMode.size,
+        repeat: scaleMode.repeat
+      }];
+      break;
+    }
+  }
+
+  return layers.map(layer => ({ ...layer, blendMode }));
+}
+
+// Figma lists paints bottom-up, CSS lists background layers top-down
+function extractFillStyles(node: any) {
+  const styles: any = {};
+  const fills = node.fills.filter((paint: any) => paint.visible !== false);
+  if (fills.length === 0) return styles;
+
+  const width = node.absoluteBoundingBox?.width || 1;
+  const height = node.absoluteBoundingBox?.height || 1;
+
+  if (node.type === 'TEXT') {
+    const solid = fills.find((paint: any) => paint.type === 'SOLID');
+    if (solid) {
+      styles.color = rgbaToHex(solid.color, solid.opacity);
+      return styles;
+    }
+  }
+
+  // A blended bottom fill stays a layer so background-blend-mode keeps its blend mode
+  const paints = [...fills].reverse();
+  const bottom = paints[paints.length - 1];
+  if (bottom.type === 'SOLID' && node.type !== 'TEXT' && !CSS_BLEND_MODES.has(toCssBlendMode(bottom.blendMode))) {
+    styles.backgroundColor = rgbaToHex(bottom.color, bottom.opacity);
+    paints.pop();
+  }
+
+  const layers = paints.flatMap((paint: any) => paintToBackgroundLayers(paint, width, height));
+  if (layers.length === 0) return styles;
+
+  styles.backgroundImage = layers.map(layer => layer.image).join(', ');
+  if (layers.some(layer => layer.position || layer.size || layer.repeat)) {
+    styles.backgroundPosition = layers.map(layer => layer.position || '0% 0%').join(', ');
+    styles.backgroundSize = layers.map(layer => layer.size || 'auto').join(', ');
+    styles.backgroundRepeat = layers.map(layer => layer.repeat || 'repeat').join(', ');
+  }
+  if (layers.some(layer => layer.blendMode)) {
+    styles.backgroundBlendMode = layers.map(layer => layer.blendMode || 'normal').join(', ');
+  }
+
+  if (node.type === 'TEXT') {
+    styles.WebkitBackgroundClip = 'text';
+    styles.backgroundClip = 'text';
+    styles.color = 'transparent';
+  }
+
+  return styles;
+}
+
+// Figma blur radii are roughly twice the CSS blur() radius
+function extractEffectStyles(node: any) {
+  const styles: any = {};
+  const shadows: string[] = [];
+  const textShadows: string[] = [];
+
+  node.effects
+    .filter((effect: any) => effect.visible !== false)
+    .forEach((effect: any) => {
+      switch (effect.type) {
+        case 'DROP_SHADOW':
+          if (node.type === 'TEXT') {
+            const color = rgbaToHex(effect.color, effect.color?.a ?? 1);
+            textShadows.push(`${effect.offset?.x || 0}px ${effect.offset?.y || 0}px ${effect.radius || 0}px ${color}`);
+          } else {
+            shadows.push(formatShadow(effect));
+          }
+          break;
+        case 'INNER_SHADOW':
+          shadows.push(formatShadow(effect));
+          break;
+        case 'LAYER_BLUR':
+          styles.filter = `blur(${(effect.radius || 0) / 2}px)`;
+          break;
+        case 'BACKGROUND_BLUR':
+          styles.backdropFilter = `blur(${(effect.radius || 0) / 2}px)`;
+          break;
+      }
+    });
+
+  if (shadows.length > 0) {
+    styles.boxShadow = shadows.join(', ');
+  }
+  if (textShadows.length > 0) {
+    styles.textShadow = textShadows.join(', ');
+  }
+
+  return styles;
+}
+
+const PRIMARY_AXIS_ALIGNMENTS: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between'
+};
+
+const COUNTER_AXIS_ALIGNMENTS: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  BASELINE: 'baseline'
+};
+
+function isAutoLayout(node: any): boolean {
+  return !!node?.layoutMode && node.layoutMode !== 'NONE';
+}
+
+function extractAutoLayoutStyles(node: any) {
+  const styles: any = {
+    display: 'flex',
+    flexDirection: node.layoutMode === 'HORIZONTAL' ? 'row' : 'column'
+  };
+
+  if (node.layoutWrap === 'WRAP') {
+    styles.flexWrap = 'wrap';
+  }
+
+  // SPACE_BETWEEN is Figma's "auto" spacing, which ignores itemSpacing on the primary axis
+  const primaryGap = node.primaryAxisAlignItems === 'SPACE_BETWEEN' ? 0 : node.itemSpacing || 0;
+  const counterGap = node.layoutWrap === 'WRAP' ? node.counterAxisSpacing ?? primaryGap : primaryGap;
+  if (primaryGap === counterGap) {
+    if (primaryGap) styles.gap = primaryGap;
+  } else {
+    styles[node.layoutMode === 'HORIZONTAL' ? 'columnGap' : 'rowGap'] = primaryGap;
+    styles[node.layoutMode === 'HORIZONTAL' ? 'rowGap' : 'columnGap'] = counterGap;
+  }
+
+  (['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'] as const).forEach(side => {
+    if (node[side]) styles[side] = node[side];
+  });
+
+  if (PRIMARY_AXIS_ALIGNMENTS[node.primaryAxisAlignItems]) {
+    styles.justifyContent = PRIMARY_AXIS_ALIGNMENTS[node.primaryAxisAlignItems];
+  }
+  styles.alignItems = COUNTER_AXIS_ALIGNMENTS[node.counterAxisAlignItems] || 'flex-start';
+
+  if ((node.children || []).some((child: any) => child.layoutPositioning === 'ABSOLUTE')) {
+    styles.position = 'relative';
+  }
+
+  return styles;
+}
+
+// Older files carry no layoutSizing* fields, so the mode is derived from the legacy properties
+function resolveSizingMode(node: any, parent: any, axis: 'horizontal' | 'vertical'): 'FIXED' | 'HUG' | 'FILL' {
+  const explicit = axis === 'horizontal' ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+  if (explicit) return explicit;
+
+  if (isAutoLayout(parent) && node.layoutPositioning !== 'ABSOLUTE') {
+    const isPrimaryAxis = (parent.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+    if (isPrimaryAxis && node.layoutGrow === 1) return 'FILL';
+    if (!isPrimaryAxis && node.layoutAlign === 'STRETCH') return 'FILL';
+  }
+
+  if (isAutoLayout(node)) {
+    const isPrimaryAxis = (node.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+    const sizingMode = isPrimaryAxis ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+    return sizingMode === 'AUTO' ? 'HUG' : 'FIXED';
+  }
+
+  if (node.type === 'TEXT') {
+    if (node.style?.textAutoResize === 'WIDTH_AND_HEIGHT') return 'HUG';
+    if (node.style?.textAutoResize === 'HEIGHT' && axis === 'vertical') return 'HUG';
+  }
+
+  return 'FIXED';
+}
+
+function extractSizingStyles(node: any, parent?: any) {
+  const styles: any = {};
+  const box = node.absoluteBoundingBox;
+
+  (['horizontal', 'vertical'] as const).forEach(axis => {
+    const mode = resolveSizingMode(node, parent, axis);
+    const dimension = axis === 'horizontal' ? 'width' : 'height';
+
+    if (mode === 'FIXED' && box) {
+      styles[dimension] = roundTo(box[dimension]);
+    } else if (mode === 'FILL' && isAutoLayout(parent)) {
+      const isPrimaryAxis = (parent.layoutMode === 'HORIZONTAL') === (axis === 'horizontal');
+      if (isPrimaryAxis) {
+        styles.flexGrow = 1;
+        styles.flexBasis = 0;
+      } else {
+        styles.alignSelf = 'stretch';
+      }
+    } else if (mode === 'FILL') {
+      styles[dimension] = '100%';
+    }
+  });
+
+  if (node.layoutGrow === 1 && isAutoLayout(parent) && styles.flexGrow === undefined) {
+    styles.flexGrow = 1;
+  }
+  if (node.layoutAlign === 'STRETCH' && isAutoLayout(parent)) {
+    styles.alignSelf = 'stretch';
+  }
+
+  return styles;
+}
+
+const CONTAINER_NODE_TYPES = new Set(['FRAME', 'GROUP', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION']);
+
+function isAbsolutelyPositioned(node: any, parent?: any): boolean {
+  if (!parent || !CONTAINER_NODE_TYPES.has(parent.type)) return false;
+  return !isAutoLayout(parent) || node.layoutPositioning === 'ABSOLUTE';
+}
+
+function formatCenterOffset(offset: number): string {
+  const rounded = roundTo(Math.abs(offset));
+  return offset < 0 ? `calc(50% - ${rounded}px)` : `calc(50% + ${rounded}px)`;
+}
+
+// Resolves one axis of a child's constraints against its parent box. `start`/`end` are the
+// CSS inset properties (left/right or top/bottom) and `size` the matching dimension.
+function resolveConstraintAxis(
+  constraint: string,
+  offset: number,
+  size: number,
+  parentSize: number,
+  properties: { start: string; end: string; size: string }
+) {
+  const styles: any = {};
+  const endOffset = parentSize - offset - size;
+
+  switch (constraint) {
+    case 'RIGHT':
+    case 'BOTTOM':
+      styles[properties.end] = roundTo(endOffset);
+      styles[properties.size] = roundTo(size);
+      break;
+    case 'LEFT_RIGHT':
+    case 'TOP_BOTTOM':
+      styles[properties.start] = roundTo(offset);
+      styles[properties.end] = roundTo(endOffset);
+      styles[properties.size] = undefined;
+      break;
+    case 'CENTER':
+      styles[properties.start] = formatCenterOffset(offset - parentSize / 2);
+      styles[properties.size] = roundTo(size);
+      break;
+    case 'SCALE':
+      styles[properties.start] = `${roundTo(offset / parentSize * 100)}%`;
+      styles[properties.size] = `${roundTo(size / parentSize * 100)}%`;
+      break;
+    default:
+      styles[properties.start] = roundTo(offset);
+      styles[properties.size] = roundTo(size);
+  }
+
+  return styles;
+}
+
+function extractConstraintStyles(node: any, parent: any) {
+  const box = node.absoluteBoundingBox;
+  const parentBox = parent.absoluteBoundingBox;
+  if (!box || !parentBox) return {};
+
+  const styles: any = { position: 'absolute' };
+  const hugsWidth = resolveSizingMode(node, undefined, 'horizontal') === 'HUG';
+  const hugsHeight = resolveSizingMode(node, undefined, 'vertical') === 'HUG';
+
+  Object.assign(styles, resolveConstraintAxis(
+    node.constraints?.horizontal || 'LEFT',
+    box.x - parentBox.x,
+    box.width,
+    parentBox.width,
+    { start: 'left', end: 'right', size: 'width' }
+  ));
+  Object.assign(styles, resolveConstraintAxis(
+    node.constraints?.vertical || 'TOP',
+    box.y - parentBox.y,
+    box.height,
+    parentBox.height,
+    { start: 'top', end: 'bottom', size: 'height' }
+  ));
+
+  // Hugging content wins over the designer's fixed box size
+  if (hugsWidth && typeof styles.width === 'number') styles.width = undefined;
+  if (hugsHeight && typeof styles.height === 'number') styles.height = undefined;
+
+  return styles;
+}
+
+const TEXT_CASE_TRANSFORMS: Record<string, string> = {
+  UPPER: 'uppercase',
+  LOWER: 'lowercase',
+  TITLE: 'capitalize'
+};
+
+const TEXT_DECORATIONS: Record<string, string> = {
+  UNDERLINE: 'underline',
+  STRIKETHROUGH: 'line-through'
+};
+
+const TEXT_ALIGNMENTS: Record<string, string> = {
+  LEFT: 'left',
+  CENTER: 'center',
+  RIGHT: 'right',
+  JUSTIFIED: 'justify'
+};
+
+// Works on both full TEXT node styles and the partial entries of a styleOverrideTable
+function extractTypographyStyles(style: any) {
+  const styles: any = {};
+
+  if (style.fontFamily) {
+    styles.fontFamily = `'${style.fontFamily}'`;
+  }
+  if (style.fontSize) {
+    styles.fontSize = style.fontSize;
+  }
+  if (style.fontWeight) {
+    styles.fontWeight = style.fontWeight;
+  }
+  if (style.italic) {
+    styles.fontStyle = 'italic';
+  }
+
+  if (style.lineHeightUnit === 'FONT_SIZE_%' && style.lineHeightPercentFontSize) {
+    styles.lineHeight = Math.round(style.lineHeightPercentFontSize) / 100;
+  } else if (style.lineHeightUnit !== 'INTRINSIC_%' && style.lineHeightPx) {
+    styles.lineHeight = `${Math.round(style.lineHeightPx * 100) / 100}px`;
+  }
+
+  if (style.letterSpacing) {
+    styles.letterSpacing = Math.round(style.letterSpacing * 100) / 100;
+  }
+
+  if (TEXT_CASE_TRANSFORMS[style.textCase]) {
+    styles.textTransform = TEXT_CASE_TRANSFORMS[style.textCase];
+  } else if (style.textCase === 'SMALL_CAPS' || style.textCase === 'SMALL_CAPS_FORCED') {
+    styles.fontVariantCaps = 'small-caps';
+  }
+
+  if (TEXT_DECORATIONS[style.textDecoration]) {
+    styles.textDecoration = TEXT_DECORATIONS[style.textDecoration];
+  }
+
+  if (TEXT_ALIGNMENTS[style.textAlignHorizontal]) {
+    styles.textAlign = TEXT_ALIGNMENTS[style.textAlignHorizontal];
+  }
+
+  if (style.textTruncation === 'ENDING') {
+    styles.overflow = 'hidden';
+    if (style.maxLines > 1) {
+      styles.display = '-webkit-box';
+      styles.WebkitBoxOrient = 'vertical';
+      styles.WebkitLineClamp = style.maxLines;
+    } else {
+      styles.textOverflow = 'ellipsis';
+      styles.whiteSpace = 'nowrap';
+    }
+  }
+
+  if (style.fills) {
+    const fill = style.fills.find((paint: any) => paint.type === 'SOLID' && paint.visible !== false);
+    if (fill) {
+      styles.color = rgbaToHex(fill.color, fill.opacity);
+    }
+  }
+
+  return styles;
+}
+
+// Splits the characters of a TEXT node into consecutive runs sharing a style override id
+function extractTextRuns(node: any): { text: string; overrideId: number }[] {
+  const characters: string = node.characters || '';
+  const overrides: number[] = node.characterStyleOverrides || [];
+  const runs: { text: string; overrideId: number }[] = [];
+
+  for (let index = 0; index < characters.length; index++) {
+    const overrideId = overrides[index] || 0;
+    const last = runs[runs.length - 1];
+    if (last && last.overrideId === overrideId) {
+      last.text += characters[index];
+    } else {
+      runs.push({ text: characters[index], overrideId });
+    }
+  }
+
+  return runs;
+}
+
 function extractDesignTokensFromNode(node: any): any {
   const tokens: any = {
     colors: {},
@@ -124,12 +769,38 @@ function extractDesignTokensFromNode(node: any): any {
   
   if (node.fills && node.fills.length > 0) {
     node.fills.forEach((fill: any, index: number) => {
-      if (fill.type === 'SOLID') {
+      if (fill.type === 'SOLID' && fill.visible !== false) {
         const colorName = `${node.name.toLowerCase().replace(/\s+/g, '-')}-fill-${index}`;
         tokens.colors[colorName] = rgbaToHex(fill.color, fill.opacity);
       }
     });
   }
+
+  if (node.effects && node.effects.length > 0) {
+    node.effects.forEach((effect: any, index: number) => {
+      if (effect.visible !== false && (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW')) {
+        const shadowName = `${node.name.toLowerCase().replace(/\s+/g, '-')}-shadow-${index}`;
+        tokens.shadows[shadowName] = formatShadow(effect);
+      }
+    });
+  }
+
+  function collectTypography(current: any) {
+    if (current.type === 'TEXT' && current.style) {
+      const typographyName = toKebabCase(current.name || 'text');
+      if (!tokens.typography[typographyName]) {
+        tokens.typography[typographyName] = {
+          fontFamily: current.style.fontFamily,
+          fontSize: current.style.fontSize,
+          fontWeight: current.style.fontWeight,
+          lineHeight: current.style.lineHeightPx,
+          letterSpacing: current.style.letterSpacing || 0
+        };
+      }
+    }
+    (current.children || []).forEach(collectTypography);
+  }
+  collectTypography(node);
   
   return tokens;
 }
@@ -149,49 +820,1170 @@ function rgbaToHex(color: any, opacity: number = 1): string {
   return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
 }
 
-export function generateReactComponentCode(component: any, designTokens: any) {
-  const componentName = component.name.replace(/[^a-zA-Z0-9]/g, '').replace(/^\w/, (c: string) => c.toUpperCase());
-  
-  const reactCode = `import React from "react";
+const UNITLESS_CSS_PROPERTIES = new Set(['opacity', 'font-weight', 'flex-grow', 'flex-shrink', 'z-index', 'line-height', '-webkit-line-clamp']);
 
-const ${componentName}: React.FC = () => {
-  return (
-    <div className="p-4 border rounded">
-      {/* ${component.name} component */}
-    </div>
-  );
+const TAILWIND_KEYWORDS: Record<string, Record<string, string>> = {
+  'display': { 'flex': 'flex', 'inline-flex': 'inline-flex', 'block': 'block', 'none': 'hidden' },
+  'flex-direction': { 'row': 'flex-row', 'column': 'flex-col' },
+  'flex-wrap': { 'wrap': 'flex-wrap' },
+  'flex-grow': { '1': 'grow' },
+  'flex-basis': { '0px': 'basis-0' },
+  'justify-content': { 'flex-start': 'justify-start', 'center': 'justify-center', 'flex-end': 'justify-end', 'space-between': 'justify-between' },
+  'align-items': { 'flex-start': 'items-start', 'center': 'items-center', 'flex-end': 'items-end', 'baseline': 'items-baseline' },
+  'align-self': { 'stretch': 'self-stretch' },
+  'position': { 'absolute': 'absolute', 'relative': 'relative' },
+  'width': { '100%': 'w-full' },
+  'height': { '100%': 'h-full' },
+  'font-style': { 'italic': 'italic' },
+  'text-transform': { 'uppercase': 'uppercase', 'lowercase': 'lowercase', 'capitalize': 'capitalize' },
+  'text-decoration': { 'underline': 'underline', 'line-through': 'line-through' },
+  'text-align': { 'left': 'text-left', 'center': 'text-center', 'right': 'text-right', 'justify': 'text-justify' },
+  'text-overflow': { 'ellipsis': 'text-ellipsis' },
+  'white-space': { 'nowrap': 'whitespace-nowrap' },
+  'overflow': { 'hidden': 'overflow-hidden' },
+  'font-variant-caps': { 'small-caps': '[font-variant-caps:small-caps]' }
 };
 
-export default ${componentName};`;
+const TAILWIND_PREFIXES: Record<string, string> = {
+  'background-color': 'bg',
+  'background-image': 'bg',
+  'color': 'text',
+  'border-color': 'border',
+  'border-width': 'border',
+  'border-radius': 'rounded',
+  'box-shadow': 'shadow',
+  'gap': 'gap',
+  'row-gap': 'gap-y',
+  'column-gap': 'gap-x',
+  'padding-top': 'pt',
+  'padding-right': 'pr',
+  'padding-bottom': 'pb',
+  'padding-left': 'pl',
+  'top': 'top',
+  'right': 'right',
+  'bottom': 'bottom',
+  'left': 'left',
+  'font-family': 'font',
+  'font-size': 'text',
+  'font-weight': 'font',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+  'width': 'w',
+  'height': 'h'
+};
 
-  const cssCode = `.${componentName.toLowerCase()} {
-  padding: 1rem;
-  border: 1px solid #e2e8f0;
-  border-radius: 0.375rem;
-}`;
+interface GeneratedNode {
+  tag: string;
+  className: string;
+  css: Record<string, string>;
+  tailwind: string[];
+  text?: string;
+  runs?: GeneratedNode[];
+  children: GeneratedNode[];
+  visibleProp?: string;
+  textProp?: string;
+  slotProp?: string;
+  defaultVisible?: boolean;
+  jsxAttributes?: string[];
+  jsxClassExpression?: string;
+  componentRef?: { name: string; props: string[] };
+  asset?: { variable: string; fileName: string; alt: string };
+  backgroundImage?: { expression: string; css: string };
+}
 
-  return {
-    react: reactCode,
-    css: cssCode,
-    tailwind: "p-4 border rounded",
-    html: `<div class="p-4 border rounded">${component.name}</div>`
-  };
+interface ComponentProp {
+  name: string;
+  key: string;
+  type: 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP';
+  tsType: string;
+  defaultValue?: string | boolean;
+}
+
+interface GenerationContext {
+  rootClassName: string;
+  usedClassNames: Map<string, number>;
+  props: Map<string, ComponentProp>;
+  registry: Map<string, RegisteredComponent>;
+  componentNames: Map<string, string>;
+  imports: Map<string, string>;
+  assets: AssetManifest;
+  variables: Map<string, string>;
+  componentId?: string;
+}
+
+interface RegisteredComponent {
+  component: any;
+  selection?: Record<string, string>;
 }
 
-export function extractDesignTokens(figmaData: any) {
-  const colors: any[] = [];
-  const typography: any[] = [];
-  const spacing: any[] = [];
+const INSTANCE_WRAPPER_PROPERTIES = new Set([
+  'position', 'top', 'right', 'bottom', 'left', 'flex-grow', 'flex-basis', 'align-self'
+]);
 
-  spacing.push(
-    { name: 'xs', value: '4px' },
-    { name: 'sm', value: '8px' },
-    { name: 'md', value: '16px' },
-    { name: 'lg', value: '24px' },
-    { name: 'xl', value: '32px' }
-  );
+// Maps every component and variant node id to the extracted component that generates it
+function buildComponentRegistry(components: any[]): Map<string, RegisteredComponent> {
+  const registry = new Map<string, RegisteredComponent>();
+  components.forEach(component => {
+    registry.set(component.id, { component });
+    (component.variants || []).forEach((variant: any) => {
+      registry.set(variant.id, { component, selection: variant.properties });
+    });
+  });
+  return registry;
+}
 
-  return { colors, typography, spacing };
+// Components with the same name (e.g. on different pages) get a numeric suffix, in extraction order,
+// so their imports and files do not collide
+function resolveComponentNames(components: any[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  components.forEach(component => {
+    const base = toPascalCase(component.name);
+    let name = base;
+    for (let suffix = 2; taken.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    taken.add(name);
+    names.set(component.id, name);
+  });
+  return names;
+}
+
+function collectInstanceReferences(node: any, registry: Map<string, RegisteredComponent>, found: Set<string>) {
+  if (node.type === 'INSTANCE' && registry.has(node.componentId)) {
+    found.add(registry.get(node.componentId)!.component.id);
+  }
+  Object.values(node.componentProperties || {}).forEach((property: any) => {
+    if (property.type === 'INSTANCE_SWAP' && registry.has(property.value)) {
+      found.add(registry.get(property.value)!.component.id);
+    }
+  });
+  (node.children || []).forEach((child: any) => collectInstanceReferences(child, registry, found));
+}
+
+export function collectComponentDependencies(component: any, components: any[]): string[] {
+  const found = new Set<string>();
+  collectInstanceReferences(component, buildComponentRegistry(components), found);
+  found.delete(component.id);
+  return Array.from(found);
+}
+
+// Orders components so every component comes after the components its instances import
+export function sortComponentsByDependencies(components: any[]): any[] {
+  const byId = new Map(components.map(component => [component.id, component]));
+  const sorted: any[] = [];
+  const visited = new Set<string>();
+
+  function visit(component: any) {
+    if (visited.has(component.id)) return;
+    visited.add(component.id);
+    collectComponentDependencies(component, components).forEach(id => visit(byId.get(id)));
+    sorted.push(component);
+  }
+
+  components.forEach(visit);
+  return sorted;
+}
+
+function formatJsxProp(name: string, value: any): string {
+  if (value === true) return name;
+  if (typeof value === 'string' && !/["{}]/.test(value)) return `${name}="${value}"`;
+  return `${name}={${JSON.stringify(value)}}`;
+}
+
+function registerAssetImport(context: GenerationContext, fileName: string): string {
+  const [base, extension = ''] = fileName.split(/\.(?=[^.]+$)/);
+  const pascal = toPascalCase(base) + toPascalCase(extension);
+  const variable = pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  context.imports.set(variable, `./assets/${fileName}`);
+  return variable;
+}
+
+// Swaps image fill placeholders for exported assets: an imported URL in JSX, a relative path in CSS
+function resolveBackgroundAssets(backgroundImage: string, context: GenerationContext) {
+  let expression = backgroundImage;
+  let css = backgroundImage;
+  let resolved = false;
+
+  backgroundImage.replace(/url\(figma-image:([^)]+)\)/g, (match: string, imageRef: string) => {
+    const asset = context.assets[imageRef];
+    if (asset) {
+      const variable = registerAssetImport(context, asset.fileName);
+      expression = expression.replace(match, `url(\${${variable}})`);
+      css = css.replace(match, `url(assets/${asset.fileName})`);
+      resolved = true;
+    }
+    return match;
+  });
+
+  return resolved ? { expression, css } : null;
+}
+
+function registerImport(context: GenerationContext, component: any): string {
+  const name = context.componentNames.get(component.id) ?? toPascalCase(component.name);
+  context.imports.set(name, `./${name}`);
+  return name;
+}
+
+// Turns an instance's property values into JSX props, skipping values that match the defaults
+function resolveInstanceProps(node: any, target: RegisteredComponent, context: GenerationContext): string[] {
+  const defaultVariant = target.component.type === 'COMPONENT_SET'
+    ? (target.component.children || []).find((child: any) => child.type === 'COMPONENT')
+    : null;
+  const targetProps = resolveComponentProps(target.component, defaultVariant);
+  const values: Record<string, any> = {};
+
+  Object.entries(target.selection || {}).forEach(([key, value]) => {
+    values[key] = value;
+  });
+  Object.entries(node.componentProperties || {}).forEach(([key, property]: [string, any]) => {
+    values[key] = property.value;
+  });
+
+  const attributes: string[] = [];
+  Object.entries(values).forEach(([key, value]) => {
+    const prop = targetProps.get(key);
+    if (!prop || value === undefined || value === prop.defaultValue) return;
+
+    if (prop.type === 'INSTANCE_SWAP') {
+      const swapped = context.registry.get(value);
+      if (swapped && swapped.component.id !== context.componentId) {
+        attributes.push(`${prop.name}={<${registerImport(context, swapped.component)} />}`);
+      }
+      return;
+    }
+    attributes.push(formatJsxProp(prop.name, value));
+  });
+
+  return attributes;
+}
+
+const RESERVED_PROP_NAMES = new Set(['className', 'children', 'key', 'ref', 'style']);
+
+function toPropName(key: string): string {
+  const pascal = toPascalCase(key.split('#')[0]);
+  const name = pascal.charAt(0).toLowerCase() + pascal.slice(1);
+  return RESERVED_PROP_NAMES.has(name) ? `${name}Prop` : name;
+}
+
+// Property definitions live on the component (set); VARIANT defaults come from the default variant
+function resolveComponentProps(component: any, defaultVariant: any): Map<string, ComponentProp> {
+  const props = new Map<string, ComponentProp>();
+  const usedNames = new Set<string>();
+  const definitions: Record<string, any> = component.propertyDefinitions || component.componentPropertyDefinitions || {};
+  const defaultValues = parseVariantName(defaultVariant?.name || '');
+
+  const variantOptions = new Map<string, Set<string>>();
+  (component.variants || []).forEach((variant: any) => {
+    Object.entries(variant.properties || {}).forEach(([key, value]) => {
+      if (!variantOptions.has(key)) variantOptions.set(key, new Set());
+      variantOptions.get(key)!.add(value as string);
+    });
+  });
+  variantOptions.forEach((_, key) => {
+    if (!definitions[key]) definitions[key] = { type: 'VARIANT' };
+  });
+
+  Object.entries(definitions).forEach(([key, definition]: [string, any]) => {
+    let name = toPropName(key);
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${toPropName(key)}${suffix}`;
+    }
+    usedNames.add(name);
+
+    switch (definition.type) {
+      case 'VARIANT': {
+        const options: string[] = definition.variantOptions || Array.from(variantOptions.get(key) || []);
+        props.set(key, {
+          name,
+          key,
+          type: 'VARIANT',
+          tsType: options.length > 0 ? options.map(option => JSON.stringify(option)).join(' | ') : 'string',
+          defaultValue: defaultValues[key] ?? definition.defaultValue
+        });
+        break;
+      }
+      case 'BOOLEAN':
+        props.set(key, { name, key, type: 'BOOLEAN', tsType: 'boolean', defaultValue: definition.defaultValue ?? true });
+        break;
+      case 'TEXT':
+        props.set(key, { name, key, type: 'TEXT', tsType: 'string', defaultValue: definition.defaultValue ?? '' });
+        break;
+      case 'INSTANCE_SWAP':
+        props.set(key, { name, key, type: 'INSTANCE_SWAP', tsType: 'React.ReactNode' });
+        break;
+    }
+  });
+
+  return props;
+}
+
+function toPascalCase(name: string): string {
+  const pascal = name
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  if (!pascal) return 'Component';
+  return /^[0-9]/.test(pascal) ? `Component${pascal}` : pascal;
+}
+
+function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase() || 'node';
+}
+
+function stylesToCss(styles: Record<string, any>): Record<string, string> {
+  const css: Record<string, string> = {};
+
+  Object.entries(styles).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    const property = key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+    css[property] = typeof value === 'number' && !UNITLESS_CSS_PROPERTIES.has(property)
+      ? `${value}px`
+      : String(value);
+  });
+
+  return css;
+}
+
+function cssToTailwind(css: Record<string, string>): string[] {
+  return Object.entries(css).map(([property, value]) => {
+    const keyword = TAILWIND_KEYWORDS[property]?.[value];
+    if (keyword) return keyword;
+
+    const arbitrary = value.replace(/\s+/g, '_');
+    const prefix = TAILWIND_PREFIXES[property];
+    return prefix ? `${prefix}-[${arbitrary}]` : `[${property}:${arbitrary}]`;
+  });
+}
+
+// Node fields Figma can bind to a variable, and the style each one produces
+const VARIABLE_BOUND_STYLES: Record<string, string> = {
+  paddingTop: 'paddingTop',
+  paddingRight: 'paddingRight',
+  paddingBottom: 'paddingBottom',
+  paddingLeft: 'paddingLeft',
+  strokeWeight: 'borderWidth',
+  width: 'width',
+  height: 'height',
+  fontFamily: 'fontFamily',
+  fontSize: 'fontSize',
+  fontWeight: 'fontWeight',
+  lineHeight: 'lineHeight',
+  letterSpacing: 'letterSpacing'
+};
+
+const CORNER_RADIUS_STYLES: Record<string, string> = {
+  topLeftRadius: 'borderTopLeftRadius',
+  topRightRadius: 'borderTopRightRadius',
+  bottomRightRadius: 'borderBottomRightRadius',
+  bottomLeftRadius: 'borderBottomLeftRadius'
+};
+
+// Text nodes bind typography per character range; the first range stands for the node
+function resolveBoundVariable(binding: any, variables: Map<string, string>): string | null {
+  const alias = Array.isArray(binding) ? binding[0] : binding;
+  const cssVariable = alias?.type === 'VARIABLE_ALIAS' && variables.get(alias.id);
+  return cssVariable ? `var(${cssVariable})` : null;
+}
+
+// Only styles the node already produces are swapped, so a binding never introduces a new property
+function applyVariableBindings(node: any, styles: Record<string, any>, variables: Map<string, string>) {
+  if (variables.size === 0) return;
+  const bindings = node.boundVariables || {};
+
+  Object.entries(VARIABLE_BOUND_STYLES).forEach(([field, property]) => {
+    const value = bindings[field] && resolveBoundVariable(bindings[field], variables);
+    if (value && styles[property] !== undefined) styles[property] = value;
+  });
+
+  const primaryGap = bindings.itemSpacing && resolveBoundVariable(bindings.itemSpacing, variables);
+  const counterGap = bindings.counterAxisSpacing && resolveBoundVariable(bindings.counterAxisSpacing, variables);
+  if (styles.gap !== undefined && primaryGap && (node.layoutWrap !== 'WRAP' || counterGap === primaryGap)) {
+    styles.gap = primaryGap;
+  } else {
+    const [primaryProperty, counterProperty] = node.layoutMode === 'HORIZONTAL' ? ['columnGap', 'rowGap'] : ['rowGap', 'columnGap'];
+    if (primaryGap && styles[primaryProperty] !== undefined) styles[primaryProperty] = primaryGap;
+    if (counterGap && styles[counterProperty] !== undefined) styles[counterProperty] = counterGap;
+  }
+
+  const corners = Object.keys(CORNER_RADIUS_STYLES).map(field => bindings[field] && resolveBoundVariable(bindings[field], variables));
+  if (styles.borderRadius !== undefined && corners.some(Boolean)) {
+    if (corners.every(corner => corner === corners[0])) {
+      styles.borderRadius = corners[0];
+    } else {
+      Object.values(CORNER_RADIUS_STYLES).forEach((property, index) => {
+        styles[property] = corners[index] || styles.borderRadius;
+      });
+      delete styles.borderRadius;
+    }
+  }
+
+  const bottomFill = (node.fills || []).find((paint: any) => paint.visible !== false);
+  const fillColor = bottomFill?.type === 'SOLID' && resolveBoundVariable(bottomFill.boundVariables?.color, variables);
+  if (fillColor) {
+    if (node.type === 'TEXT' && styles.color !== undefined && styles.color !== 'transparent') styles.color = fillColor;
+    if (node.type !== 'TEXT' && styles.backgroundColor !== undefined) styles.backgroundColor = fillColor;
+  }
+
+  const stroke = (node.strokes || []).find((paint: any) => paint.visible !== false);
+  const strokeColor = stroke?.type === 'SOLID' && resolveBoundVariable(stroke.boundVariables?.color, variables);
+  if (strokeColor && styles.borderColor !== undefined) styles.borderColor = strokeColor;
+}
+
+function collectGeneratedStyles(node: any, styles: any, context: GenerationContext): Record<string, any> {
+  const collected = { ...styles };
+
+  if (node.type === 'ELLIPSE') {
+    collected.borderRadius = '50%';
+  }
+  applyVariableBindings(node, collected, context.variables);
+
+  return collected;
+}
+
+function buildGeneratedNode(node: any, className: string, styles: any, context: GenerationContext): GeneratedNode {
+  const css = stylesToCss(collectGeneratedStyles(node, styles, context));
+  const generated: GeneratedNode = {
+    tag: node.type === 'TEXT' ? 'span' : 'div',
+    className,
+    css,
+    tailwind: cssToTailwind(css),
+    children: [],
+    defaultVisible: node.visible !== false
+  };
+
+  const backgroundImage = css['background-image'] && resolveBackgroundAssets(css['background-image'], context);
+  if (backgroundImage) {
+    generated.backgroundImage = backgroundImage;
+    generated.css = { ...css, 'background-image': backgroundImage.css };
+    generated.tailwind = cssToTailwind(Object.fromEntries(
+      Object.entries(css).filter(([property]) => property !== 'background-image')
+    ));
+  }
+
+  const references = node.componentPropertyReferences || {};
+  const visibleProp = context.props.get(references.visible);
+  if (visibleProp?.type === 'BOOLEAN') {
+    generated.visibleProp = visibleProp.name;
+    generated.defaultVisible = visibleProp.defaultValue !== false;
+  }
+  const slotProp = context.props.get(references.mainComponent);
+  if (slotProp?.type === 'INSTANCE_SWAP') {
+    generated.slotProp = slotProp.name;
+  }
+
+  if (node.type === 'TEXT') {
+    const textProp = context.props.get(references.characters);
+    if (textProp?.type === 'TEXT') {
+      generated.textProp = textProp.name;
+      generated.text = (textProp.defaultValue as string) || node.characters || '';
+      return generated;
+    }
+
+    const runs = extractTextRuns(node);
+    if (runs.every(run => run.overrideId === 0)) {
+      generated.text = node.characters || '';
+      return generated;
+    }
+
+    generated.runs = runs.map((run, index) => {
+      const runCss = run.overrideId === 0
+        ? {}
+        : stylesToCss(extractTypographyStyles(node.styleOverrideTable?.[run.overrideId] || {}));
+      return {
+        tag: Object.keys(runCss).length > 0 ? 'span' : '',
+        className: `${className}-run-${index + 1}`,
+        css: runCss,
+        tailwind: cssToTailwind(runCss),
+        text: run.text,
+        children: []
+      };
+    });
+    return generated;
+  }
+
+  if (node.type === 'VECTOR' || node.type === 'BOOLEAN_OPERATION') {
+    const asset = context.assets[node.id];
+    if (asset) {
+      generated.tag = 'img';
+      generated.asset = { variable: registerAssetImport(context, asset.fileName), fileName: asset.fileName, alt: node.name || '' };
+    }
+    return generated;
+  }
+
+  // Instances of components generated alongside this one are imported rather than inlined;
+  // the inlined children are still built for the HTML output
+  const target = node.type === 'INSTANCE' ? context.registry.get(node.componentId) : undefined;
+  if (target && target.component.id !== context.componentId) {
+    generated.componentRef = {
+      name: registerImport(context, target.component),
+      props: resolveInstanceProps(node, target, context)
+    };
+  }
+
+  // Hidden layers are kept when a boolean property can toggle them back on
+  (node.children || [])
+    .filter((child: any) => child.visible !== false || context.props.get(child.componentPropertyReferences?.visible)?.type === 'BOOLEAN')
+    .forEach((child: any) => {
+      const baseClassName = `${context.rootClassName}__${toKebabCase(child.name || child.type)}`;
+      const count = context.usedClassNames.get(baseClassName) || 0;
+      context.usedClassNames.set(baseClassName, count + 1);
+      const childClassName = count > 0 ? `${baseClassName}-${count + 1}` : baseClassName;
+
+      generated.children.push(
+        buildGeneratedNode(child, childClassName, extractNodeStyles(child, node), context)
+      );
+    });
+
+  return generated;
+}
+
+function escapeJsxText(text: string): string {
+  return /[{}<>&]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderTextLines(text: string, escape: (line: string) => string): string {
+  return text.split('\n').map(escape).join('<br />');
+}
+
+function jsxClassAttr(node: GeneratedNode): string {
+  const classAttr = node.jsxClassExpression
+    ? ` className={${node.jsxClassExpression}}`
+    : node.tailwind.length > 0 ? ` className="${node.tailwind.join(' ')}"` : '';
+  const attributes = [...(node.jsxAttributes || [])];
+  if (node.asset) {
+    attributes.push(`src={${node.asset.variable}}`, formatJsxProp('alt', node.asset.alt));
+  }
+  if (node.backgroundImage) {
+    attributes.push(`style={{ backgroundImage: \`${node.backgroundImage.expression}\` }}`);
+  }
+  return classAttr + attributes.map(attribute => ` ${attribute}`).join('');
+}
+
+// Styled runs stay on one line so JSX and HTML keep the whitespace between them
+function renderRuns(runs: GeneratedNode[], escape: (line: string) => string, classAttr: (run: GeneratedNode) => string): string {
+  return runs.map(run => {
+    const text = renderTextLines(run.text || '', escape);
+    return run.tag ? `<${run.tag}${classAttr(run)}>${text}</${run.tag}>` : text;
+  }).join('');
+}
+
+function renderJsx(node: GeneratedNode, depth: number): string {
+  const indent = '  '.repeat(depth);
+
+  if (node.visibleProp || node.slotProp) {
+    const element = renderJsx({ ...node, visibleProp: undefined, slotProp: undefined }, depth + 1);
+    let expression = `(\n${element}\n${indent})`;
+    if (node.slotProp) {
+      expression = `${node.slotProp} ?? ${expression}`;
+    }
+    if (node.visibleProp) {
+      expression = node.slotProp ? `${node.visibleProp} && (${expression})` : `${node.visibleProp} && ${expression}`;
+    }
+    return `${indent}{${expression}}`;
+  }
+
+  if (node.componentRef) {
+    const props = node.componentRef.props.map(prop => ` ${prop}`).join('');
+    const wrapperCss: Record<string, string> = {};
+    Object.entries(node.css).forEach(([property, value]) => {
+      if (property === 'position' && value !== 'absolute') return;
+      if (INSTANCE_WRAPPER_PROPERTIES.has(property)) wrapperCss[property] = value;
+    });
+    if (Object.keys(wrapperCss).length === 0) {
+      return `${indent}<${node.componentRef.name}${props} />`;
+    }
+    return `${indent}<div className="${cssToTailwind(wrapperCss).join(' ')}">\n${indent}  <${node.componentRef.name}${props} />\n${indent}</div>`;
+  }
+
+  const classAttr = jsxClassAttr(node);
+  if (node.textProp) {
+    return `${indent}<${node.tag}${classAttr}>{${node.textProp}}</${node.tag}>`;
+  }
+  if (node.text !== undefined) {
+    return `${indent}<${node.tag}${classAttr}>${renderTextLines(node.text, escapeJsxText)}</${node.tag}>`;
+  }
+  if (node.runs) {
+    return `${indent}<${node.tag}${classAttr}>${renderRuns(node.runs, escapeJsxText, jsxClassAttr)}</${node.tag}>`;
+  }
+  if (node.children.length === 0) {
+    return `${indent}<${node.tag}${classAttr} />`;
+  }
+
+  const children = node.children.map(child => renderJsx(child, depth + 1)).join('\n');
+  return `${indent}<${node.tag}${classAttr}>\n${children}\n${indent}</${node.tag}>`;
+}
+
+function renderHtml(node: GeneratedNode, depth: number): string {
+  const indent = '  '.repeat(depth);
+  if (node.asset) {
+    return `${indent}<img class="${node.className}" src="assets/${node.asset.fileName}" alt="${escapeHtml(node.asset.alt)}" />`;
+  }
+  const open = `<${node.tag} class="${node.className}">`;
+
+  if (node.text !== undefined) {
+    return `${indent}${open}${renderTextLines(node.text, escapeHtml)}</${node.tag}>`;
+  }
+  if (node.runs) {
+    return `${indent}${open}${renderRuns(node.runs, escapeHtml, run => ` class="${run.className}"`)}</${node.tag}>`;
+  }
+  if (node.children.length === 0) {
+    return `${indent}${open}</${node.tag}>`;
+  }
+
+  const children = node.children
+    .filter(child => child.defaultVisible !== false)
+    .map(child => renderHtml(child, depth + 1))
+    .join('\n');
+  return `${indent}${open}\n${children}\n${indent}</${node.tag}>`;
+}
+
+function renderCss(node: GeneratedNode): string[] {
+  const rules: string[] = [];
+  const declarations = Object.entries(node.css).map(([property, value]) => `  ${property}: ${value};`);
+
+  if (declarations.length > 0) {
+    rules.push(`.${node.className} {\n${declarations.join('\n')}\n}`);
+  }
+  (node.runs || []).forEach(run => rules.push(...renderCss(run)));
+  node.children.forEach(child => rules.push(...renderCss(child)));
+
+  return rules;
+}
+
+interface VariantConfig {
+  base: Record<string, string>;
+  variants: Map<string, Map<string, Record<string, string>>>;
+  compoundVariants: { selection: Record<string, string>; css: Record<string, string> }[];
+  defaults: Record<string, string>;
+}
+
+// Splits the variants' root styles into shared base styles, styles owned by a single variant
+// property, and compound overrides for whatever the per-property styles cannot reproduce.
+function buildVariantConfig(component: any, defaultVariant: any): VariantConfig | null {
+  const variantNodes = (component.children || []).filter((child: any) => child.type === 'COMPONENT');
+  if (component.type !== 'COMPONENT_SET' || variantNodes.length < 2) return null;
+
+  const entries = variantNodes.map((variant: any) => ({
+    selection: parseVariantName(variant.name),
+    css: stylesToCss(extractNodeStyles(variant))
+  }));
+  const defaults = parseVariantName(defaultVariant.name);
+  const baseCss = stylesToCss(extractNodeStyles(defaultVariant));
+  const axes = Array.from(new Set<string>(entries.flatMap((entry: any) => Object.keys(entry.selection))));
+
+  const properties = new Set<string>(entries.flatMap((entry: any) => Object.keys(entry.css)));
+  const varying = Array.from(properties).filter(property => entries.some((entry: any) => entry.css[property] !== baseCss[property]));
+
+  const isSingleAxis = (entry: any, axis: string) =>
+    axes.every(other => other === axis || entry.selection[other] === defaults[other]);
+
+  const owners = new Map<string, Set<string>>();
+  axes.forEach(axis => {
+    entries
+      .filter((entry: any) => isSingleAxis(entry, axis) && entry.selection[axis] !== defaults[axis])
+      .forEach((entry: any) => {
+        varying
+          .filter(property => entry.css[property] !== baseCss[property])
+          .forEach(property => {
+            if (!owners.has(property)) owners.set(property, new Set());
+            owners.get(property)!.add(axis);
+          });
+      });
+  });
+
+  // Styles no single property owns stay in the base; cn() lets the compound overrides win
+  const base: Record<string, string> = {};
+  Object.entries(baseCss).forEach(([property, value]) => {
+    if (!owners.has(property)) base[property] = value;
+  });
+
+  const variants = new Map<string, Map<string, Record<string, string>>>();
+  axes.forEach(axis => {
+    const values = new Map<string, Record<string, string>>();
+    entries.forEach((entry: any) => {
+      const value = entry.selection[axis];
+      if (value === undefined || values.has(value)) return;
+
+      const source = entries.find((candidate: any) => candidate.selection[axis] === value && isSingleAxis(candidate, axis));
+      const css: Record<string, string> = {};
+      if (source) {
+        varying
+          .filter(property => owners.get(property)?.size === 1 && owners.get(property)!.has(axis))
+          .forEach(property => {
+            if (source.css[property] !== undefined) css[property] = source.css[property];
+          });
+      }
+      values.set(value, css);
+    });
+    variants.set(axis, values);
+  });
+
+  const compoundVariants: VariantConfig['compoundVariants'] = [];
+  entries.forEach((entry: any) => {
+    const expected: Record<string, string> = { ...base };
+    axes.forEach(axis => Object.assign(expected, variants.get(axis)?.get(entry.selection[axis]) || {}));
+
+    const css: Record<string, string> = {};
+    varying.forEach(property => {
+      if (entry.css[property] !== expected[property]) {
+        css[property] = entry.css[property] ?? 'initial';
+      }
+    });
+    if (Object.keys(css).length > 0) {
+      compoundVariants.push({ selection: entry.selection, css });
+    }
+  });
+
+  return { base, variants, compoundVariants, defaults };
+}
+
+function renderCvaConfig(variableName: string, config: VariantConfig, props: Map<string, ComponentProp>): string {
+  const propName = (axis: string) => props.get(axis)?.name || toPropName(axis);
+  const classList = (css: Record<string, string>) => JSON.stringify(cssToTailwind(css).join(' '));
+
+  const variantBlocks = Array.from(config.variants.entries()).map(([axis, values]) => {
+    const valueLines = Array.from(values.entries())
+      .map(([value, css]) => `      ${JSON.stringify(value)}: ${classList(css)},`)
+      .join('\n');
+    return `    ${propName(axis)}: {\n${valueLines}\n    },`;
+  }).join('\n');
+
+  const compoundLines = config.compoundVariants.map(compound => {
+    const selection = Object.entries(compound.selection)
+      .map(([axis, value]) => `${propName(axis)}: ${JSON.stringify(value)}`)
+      .join(', ');
+    return `    { ${selection}, class: ${classList(compound.css)} },`;
+  }).join('\n');
+
+  const defaultLines = Object.entries(config.defaults)
+    .map(([axis, value]) => `    ${propName(axis)}: ${JSON.stringify(value)},`)
+    .join('\n');
+
+  return `const ${variableName} = cva(${classList(config.base)}, {
+  variants: {
+${variantBlocks}
+  },
+  compoundVariants: [${compoundLines ? `\n${compoundLines}\n  ` : ''}],
+  defaultVariants: {
+${defaultLines}
+  },
+});`;
+}
+
+function renderVariantCss(rootClassName: string, config: VariantConfig, props: Map<string, ComponentProp>): string[] {
+  const attribute = (axis: string, value: string) =>
+    `[data-${toKebabCase(props.get(axis)?.name || toPropName(axis))}=${JSON.stringify(value)}]`;
+  const rule = (selector: string, css: Record<string, string>) => {
+    const declarations = Object.entries(css).map(([property, value]) => `  ${property}: ${value};`);
+    return declarations.length > 0 ? [`${selector} {\n${declarations.join('\n')}\n}`] : [];
+  };
+
+  const rules: string[] = [];
+  config.variants.forEach((values, axis) => {
+    values.forEach((css, value) => rules.push(...rule(`.${rootClassName}${attribute(axis, value)}`, css)));
+  });
+  config.compoundVariants.forEach(compound => {
+    const selector = Object.entries(compound.selection).map(([axis, value]) => attribute(axis, value)).join('');
+    rules.push(...rule(`.${rootClassName}${selector}`, compound.css));
+  });
+  return rules;
+}
+
+function renderPropsInterface(componentName: string, props: ComponentProp[], variantsName?: string): string {
+  const fields = props
+    .filter(prop => !variantsName || prop.type !== 'VARIANT')
+    .map(prop => `  ${prop.name}?: ${prop.tsType};`);
+  if (!variantsName) {
+    return `export interface ${componentName}Props {\n${fields.join('\n')}\n}`;
+  }
+  return `export interface ${componentName}Props extends VariantProps<typeof ${variantsName}> {\n${['  className?: string;', ...fields].join('\n')}\n}`;
+}
+
+function renderPropsDestructuring(props: ComponentProp[], withClassName: boolean): string {
+  const lines = props.map(prop => prop.defaultValue === undefined
+    ? `  ${prop.name}`
+    : `  ${prop.name} = ${JSON.stringify(prop.defaultValue)}`);
+  if (withClassName) lines.push('  className');
+  return lines.join(',\n');
+}
+
+export interface GenerateComponentOptions {
+  // Every component extracted alongside this one, used to import instances instead of inlining them
+  components?: any[];
+  assets?: AssetManifest;
+}
+
+export function generateReactComponentCode(component: any, designTokens: any, options: GenerateComponentOptions = {}) {
+  const componentNames = resolveComponentNames(options.components || []);
+  const componentName = componentNames.get(component.id) ?? toPascalCase(component.name);
+  const rootClassName = toKebabCase(component.name);
+
+  // A component set renders its default (first) variant
+  const sourceNode = component.type === 'COMPONENT_SET'
+    ? component.children?.find((child: any) => child.type === 'COMPONENT') || component
+    : component;
+  const rootStyles = sourceNode === component ? component.styles || {} : extractNodeStyles(sourceNode);
+  const props = resolveComponentProps(component, sourceNode === component ? null : sourceNode);
+  const propList = Array.from(props.values());
+  const variantConfig = sourceNode === component ? null : buildVariantConfig(component, sourceNode);
+  const variantsName = `${componentName.charAt(0).toLowerCase()}${componentName.slice(1)}Variants`;
+
+  const context: GenerationContext = {
+    rootClassName,
+    usedClassNames: new Map(),
+    props,
+    registry: buildComponentRegistry(options.components || []),
+    componentNames,
+    imports: new Map(),
+    assets: options.assets || {},
+    variables: new Map((designTokens?.variables?.tokens || []).map((token: VariableToken) => [token.id, token.cssVariable])),
+    componentId: component.id
+  };
+  const tree = buildGeneratedNode({ ...sourceNode, type: 'FRAME' }, rootClassName, rootStyles, context);
+
+  // Variant values are exposed as data attributes so they can be targeted from CSS
+  const variantProps = propList.filter(prop => prop.type === 'VARIANT');
+  tree.jsxAttributes = variantProps.map(prop => `data-${toKebabCase(prop.name)}={${prop.name}}`);
+  if (variantConfig) {
+    tree.jsxClassExpression = `cn(${variantsName}({ ${variantProps.map(prop => prop.name).join(', ')} }), className)`;
+  }
+  const jsx = renderJsx(tree, 2);
+
+  const imports = ['import React from "react";'];
+  if (variantConfig) {
+    imports.push('import { cva, type VariantProps } from "class-variance-authority";', 'import { cn } from "@/lib/utils";');
+  }
+  context.imports.forEach((path, name) => imports.push(`import ${name} from "${path}";`));
+
+  const reactCode = propList.length === 0
+    ? `${imports.join('\n')}
+
+const ${componentName}: React.FC = () => {
+  return (
+${jsx}
+  );
+};
+
+export default ${componentName};`
+    : `${imports.join('\n')}
+${variantConfig ? `\n${renderCvaConfig(variantsName, variantConfig, props)}\n` : ''}
+${renderPropsInterface(componentName, propList, variantConfig ? variantsName : undefined)}
+
+const ${componentName}: React.FC<${componentName}Props> = ({
+${renderPropsDestructuring(propList, !!variantConfig)}
+}) => {
+  return (
+${jsx}
+  );
+};
+
+export default ${componentName};`;
+
+  const cssRules = renderCss(tree);
+  if (variantConfig) {
+    cssRules.splice(1, 0, ...renderVariantCss(rootClassName, variantConfig, props));
+  }
+
+  return {
+    fileName: `${componentName}.tsx`,
+    react: reactCode,
+    css: cssRules.join('\n\n'),
+    tailwind: variantConfig ? cssToTailwind(variantConfig.base).join(' ') : tree.tailwind.join(' '),
+    html: renderHtml(tree, 0)
+  };
+}
+
+const SCALE_NAMES = ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl', '5xl'];
+
+function formatShadow(effect: any): string {
+  const x = effect.offset?.x || 0;
+  const y = effect.offset?.y || 0;
+  const blur = effect.radius || 0;
+  const spread = effect.spread || 0;
+  const color = rgbaToHex(effect.color, effect.color?.a ?? 1);
+  const inset = effect.type === 'INNER_SHADOW' ? 'inset ' : '';
+  return `${inset}${x}px ${y}px ${blur}px ${spread}px ${color}`;
+}
+
+function buildScale(values: Set<number>, prefix: string): any[] {
+  const sorted = Array.from(values).filter(value => value > 0).sort((a, b) => a - b);
+  return sorted.map((value, index) => ({
+    name: sorted.length <= SCALE_NAMES.length ? SCALE_NAMES[index] : `${prefix}-${index + 1}`,
+    value: `${value}px`
+  }));
+}
+
+function resolveStyleValue(styleType: string, node: any, usage: string): any {
+  switch (styleType) {
+    case 'FILL': {
+      const paints = usage === 'stroke' ? node.strokes : node.fills;
+      const solid = paints?.find((paint: any) => paint.type === 'SOLID' && paint.visible !== false);
+      return solid ? { value: rgbaToHex(solid.color, solid.opacity ?? 1) } : null;
+    }
+    case 'TEXT': {
+      const style = node.style;
+      if (!style) return null;
+      return {
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize,
+        fontWeight: style.fontWeight,
+        lineHeight: style.lineHeightPx,
+        letterSpacing: style.letterSpacing || 0
+      };
+    }
+    case 'EFFECT': {
+      const shadows = (node.effects || [])
+        .filter((effect: any) => effect.visible !== false && (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW'))
+        .map(formatShadow);
+      return shadows.length > 0 ? { value: shadows.join(', ') } : null;
+    }
+    case 'GRID': {
+      const grids = (node.layoutGrids || []).map((grid: any) => ({
+        pattern: grid.pattern,
+        sectionSize: grid.sectionSize,
+        gutterSize: grid.gutterSize,
+        count: grid.count,
+        alignment: grid.alignment,
+        offset: grid.offset
+      }));
+      return grids.length > 0 ? { grids } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Figma Variables. The local variables endpoint needs the file_variables:read scope (Enterprise plans),
+// so a failed request means the file simply has no variable tokens.
+export async function fetchFigmaVariables(fileId: string, token: string) {
+  try {
+    return await getFigmaClient().getLocalVariables(fileId, token);
+  } catch (error) {
+    return null;
+  }
+}
+
+export interface VariableMode {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface VariableCollection {
+  id: string;
+  name: string;
+  defaultMode: string;
+  modes: VariableMode[];
+}
+
+// Each mode holds either a resolved CSS value or an alias to another token
+export interface VariableTokenValue {
+  value?: string | number | boolean;
+  alias?: { id: string; name?: string };
+}
+
+export interface VariableToken {
+  id: string;
+  name: string;
+  collection: string;
+  type: string;
+  cssVariable: string;
+  description?: string;
+  values: Record<string, VariableTokenValue>;
+}
+
+export interface VariableTokenSet {
+  collections: VariableCollection[];
+  tokens: VariableToken[];
+}
+
+const UNITLESS_VARIABLE_SCOPES = ['FONT_WEIGHT', 'OPACITY', 'LINE_HEIGHT'];
+
+function formatVariableValue(variable: any, value: any): string | number | boolean {
+  switch (variable.resolvedType) {
+    case 'COLOR':
+      return rgbaToHex(value, value.a ?? 1);
+    case 'FLOAT': {
+      const scopes: string[] = variable.scopes || [];
+      const unitless = scopes.length > 0 && scopes.every(scope => UNITLESS_VARIABLE_SCOPES.includes(scope));
+      return unitless ? value : `${value}px`;
+    }
+    case 'STRING':
+      return (variable.scopes || []).includes('FONT_FAMILY') ? `'${value}'` : value;
+    default:
+      return value;
+  }
+}
+
+export function extractVariableTokens(variablesData: any): VariableTokenSet | null {
+  const variables: Record<string, any> = variablesData?.meta?.variables || {};
+  const collections: Record<string, any> = variablesData?.meta?.variableCollections || {};
+  const localVariables = Object.values(variables).filter((variable: any) => !variable.remote);
+  if (localVariables.length === 0) return null;
+
+  const modeSlugs = new Map<string, string>();
+  const tokenCollections: VariableCollection[] = Object.values(collections)
+    .filter((collection: any) => !collection.remote)
+    .map((collection: any) => {
+      const modes = (collection.modes || []).map((mode: any) => {
+        const slug = toKebabCase(mode.name);
+        modeSlugs.set(mode.modeId, slug);
+        return { id: mode.modeId, name: mode.name, slug };
+      });
+      return {
+        id: collection.id,
+        name: collection.name,
+        defaultMode: modeSlugs.get(collection.defaultModeId) || modes[0]?.slug,
+        modes
+      };
+    });
+
+  // Names are unique within a collection; the collection prefixes a name only when two collections share it
+  const nameCounts = new Map<string, number>();
+  localVariables.forEach((variable: any) => {
+    const name = toKebabCase(variable.name);
+    nameCounts.set(name, (nameCounts.get(name) || 0) + 1);
+  });
+  const cssVariables = new Map<string, string>();
+  localVariables.forEach((variable: any) => {
+    const name = toKebabCase(variable.name);
+    const collectionName = collections[variable.variableCollectionId]?.name || '';
+    cssVariables.set(variable.id, (nameCounts.get(name) || 0) > 1 ? `--${toKebabCase(`${collectionName} ${name}`)}` : `--${name}`);
+  });
+
+  const tokens: VariableToken[] = localVariables.map((variable: any) => {
+    const values: Record<string, VariableTokenValue> = {};
+    Object.entries(variable.valuesByMode || {}).forEach(([modeId, value]: [string, any]) => {
+      const mode = modeSlugs.get(modeId) || modeId;
+      if (value && typeof value === 'object' && value.type === 'VARIABLE_ALIAS') {
+        // Aliases to library variables have no name since the target is not in this file
+        values[mode] = { alias: { id: value.id, name: variables[value.id]?.name } };
+      } else {
+        values[mode] = { value: formatVariableValue(variable, value) };
+      }
+    });
+
+    return {
+      id: variable.id,
+      name: variable.name,
+      collection: collections[variable.variableCollectionId]?.name || '',
+      type: variable.resolvedType,
+      cssVariable: cssVariables.get(variable.id)!,
+      description: variable.description || undefined,
+      values
+    };
+  }).sort((a, b) => a.name.localeCompare(b.name));
+
+  return { collections: tokenCollections, tokens };
+}
+
+// Default modes are declared on :root as well so the tokens resolve without a data-theme attribute
+export function renderVariableCss(tokenSet: VariableTokenSet | null | undefined): string {
+  if (!tokenSet) return '';
+
+  const cssVariablesById = new Map(tokenSet.tokens.map(token => [token.id, token.cssVariable]));
+  const blocks = new Map<string, string[]>();
+
+  tokenSet.collections.forEach(collection => {
+    const collectionTokens = tokenSet.tokens.filter(token => token.collection === collection.name);
+
+    collection.modes.forEach(mode => {
+      const selector = mode.slug === collection.defaultMode
+        ? `:root,\n[data-theme="${mode.slug}"]`
+        : `[data-theme="${mode.slug}"]`;
+      const declarations = blocks.get(selector) || [];
+
+      collectionTokens.forEach(token => {
+        const entry = token.values[mode.slug];
+        if (!entry) return;
+        const target = entry.alias && cssVariablesById.get(entry.alias.id);
+        if (target) {
+          declarations.push(`  ${token.cssVariable}: var(${target});`);
+        } else if (entry.value !== undefined && typeof entry.value !== 'boolean') {
+          declarations.push(`  ${token.cssVariable}: ${entry.value};`);
+        }
+      });
+      blocks.set(selector, declarations);
+    });
+  });
+
+  return Array.from(blocks.entries())
+    .filter(([, declarations]) => declarations.length > 0)
+    .map(([selector, declarations]) => `${selector} {\n${declarations.join('\n')}\n}`)
+    .join('\n\n');
+}
+
+export function extractDesignTokens(figmaData: any, variablesData?: any) {
+  const styleDefinitions: Record<string, any> = figmaData.styles || {};
+  const resolvedStyles = new Map<string, any>();
+  const spacingValues = new Set<number>();
+  const radiusValues = new Set<number>();
+
+  function traverseNode(node: any) {
+    if (node.styles) {
+      Object.entries(node.styles).forEach(([usage, styleId]: [string, any]) => {
+        const definition = styleDefinitions[styleId];
+        if (!definition || resolvedStyles.has(styleId)) return;
+
+        const resolved = resolveStyleValue(definition.styleType, node, usage);
+        if (resolved) {
+          resolvedStyles.set(styleId, { name: definition.name, description: definition.description || undefined, ...resolved });
+        }
+      });
+    }
+
+    if (isAutoLayout(node)) {
+      [node.itemSpacing, node.counterAxisSpacing, node.paddingLeft, node.paddingRight, node.paddingTop, node.paddingBottom]
+        .forEach(value => {
+          if (typeof value === 'number') spacingValues.add(value);
+        });
+    }
+
+    if (typeof node.cornerRadius === 'number') {
+      radiusValues.add(node.cornerRadius);
+    }
+    (node.rectangleCornerRadii || []).forEach((value: number) => radiusValues.add(value));
+
+    if (node.children) {
+      node.children.forEach(traverseNode);
+    }
+  }
+
+  if (figmaData.document) {
+    traverseNode(figmaData.document);
+  }
+
+  const variables = extractVariableTokens(variablesData);
+
+  const tokensOfType = (styleType: string) => Array.from(resolvedStyles.entries())
+    .filter(([styleId]) => styleDefinitions[styleId].styleType === styleType)
+    .map(([, token]) => token)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    colors: tokensOfType('FILL'),
+    typography: tokensOfType('TEXT'),
+    spacing: buildScale(spacingValues, 'spacing'),
+    radii: buildScale(radiusValues, 'radius'),
+    shadows: tokensOfType('EFFECT'),
+    grids: tokensOfType('GRID'),
+    ...(variables ? { variables } : {})
+  };
 }
 
 export function extractColorPaletteFromFigmaData(figmaData: any): any[] {
@@ -200,7 +1992,7 @@ export function extractColorPaletteFromFigmaData(figmaData: any): any[] {
   function traverseNode(node: any) {
     if (node.fills) {
       node.fills.forEach((fill: any) => {
-        if (fill.type === 'SOLID' && fill.color) {
+        if (fill.type === 'SOLID' && fill.color && fill.visible !== false) {
           const hex = rgbaToHex(fill.color, fill.opacity || 1);
           const rgb = {
             r: Math.round((fill.color.r || 0) * 255),
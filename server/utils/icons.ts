@@ -0,0 +1,175 @@
+const ICON_NAME_PATTERN = /(^|[^a-z])(icon|icons|ic)([^a-z]|$)/i;
+
+export interface GeneratedIcon {
+  nodeId: string;
+  name: string;
+  componentName: string;
+  fileName: string;
+  react: string;
+  svg: string;
+}
+
+interface IconPath {
+  d: string;
+  fillRule?: 'evenodd';
+  x: number;
+  y: number;
+}
+
+export function isIconName(name: string): boolean {
+  return ICON_NAME_PATTERN.test(name || '');
+}
+
+// Icon-named components are exported whole; loose vectors and boolean operations outside them on their own
+export function collectIconNodes(figmaData: any): any[] {
+  const icons: any[] = [];
+
+  function traverseNode(node: any) {
+    if (node.type === 'COMPONENT' && isIconName(node.name)) {
+      icons.push(node);
+      return;
+    }
+    if (node.type === 'VECTOR' || node.type === 'BOOLEAN_OPERATION') {
+      icons.push(node);
+      return;
+    }
+    (node.children || []).forEach(traverseNode);
+  }
+
+  if (figmaData.document) {
+    traverseNode(figmaData.document);
+  }
+  return icons;
+}
+
+function toIconComponentName(name: string): string {
+  const words = (name || '')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(word => word && !/^(icon|icons|ic)$/i.test(word));
+  // The Icon prefix keeps names starting with a digit (e.g. "24/arrow") valid identifiers
+  const pascal = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  return `Icon${pascal || 'Glyph'}`;
+}
+
+// Geometry is only present when the file was fetched with geometry=paths
+function collectIconPaths(root: any): IconPath[] {
+  const paths: IconPath[] = [];
+  const origin = root.absoluteBoundingBox || { x: 0, y: 0 };
+
+  function traverseNode(node: any) {
+    if (node.visible === false) return;
+
+    const box = node.absoluteBoundingBox || origin;
+    const geometry = [...(node.fillGeometry || []), ...(node.strokeGeometry || [])];
+    geometry.forEach((entry: any) => {
+      if (!entry.path) return;
+      paths.push({
+        d: entry.path,
+        fillRule: entry.windingRule === 'EVENODD' ? 'evenodd' : undefined,
+        x: Math.round((box.x - origin.x) * 100) / 100,
+        y: Math.round((box.y - origin.y) * 100) / 100
+      });
+    });
+
+    // Boolean operations carry the combined geometry, their operands would draw it twice
+    if (node.type !== 'BOOLEAN_OPERATION' || geometry.length === 0) {
+      (node.children || []).forEach(traverseNode);
+    }
+  }
+
+  traverseNode(root);
+  return paths;
+}
+
+function renderPath(path: IconPath, fill: string, jsx: boolean): string {
+  const attributes = [`d="${path.d}"`];
+  if (path.fillRule) {
+    attributes.push(jsx ? `fillRule="evenodd" clipRule="evenodd"` : `fill-rule="evenodd" clip-rule="evenodd"`);
+  }
+  if (path.x !== 0 || path.y !== 0) {
+    attributes.push(`transform="translate(${path.x} ${path.y})"`);
+  }
+  attributes.push(jsx ? `fill={${fill}}` : `fill="${fill}"`);
+  return `<path ${attributes.join(' ')} />`;
+}
+
+export function generateIconComponentCode(node: any, componentName: string): GeneratedIcon | null {
+  const paths = collectIconPaths(node);
+  if (paths.length === 0) return null;
+
+  const width = Math.round((node.absoluteBoundingBox?.width || 24) * 100) / 100;
+  const height = Math.round((node.absoluteBoundingBox?.height || 24) * 100) / 100;
+  const viewBox = `0 0 ${width} ${height}`;
+
+  const react = `import React from "react";
+
+export interface ${componentName}Props extends Omit<React.SVGProps<SVGSVGElement>, "color"> {
+  size?: number | string;
+  color?: string;
+  title?: string;
+}
+
+const ${componentName}: React.FC<${componentName}Props> = ({
+  size = ${Math.max(width, height)},
+  color = "currentColor",
+  title,
+  ...props
+}) => (
+  <svg
+    width={size}
+    height={size}
+    viewBox="${viewBox}"
+    fill="none"
+    xmlns="http://www.w3.org/2000/svg"
+    role={title ? "img" : undefined}
+    aria-hidden={title ? undefined : true}
+    {...props}
+  >
+    {title && <title>{title}</title>}
+${paths.map(path => `    ${renderPath(path, 'color', true)}`).join('\n')}
+  </svg>
+);
+
+export default ${componentName};`;
+
+  const svg = `<svg width="${width}" height="${height}" viewBox="${viewBox}" fill="none" xmlns="http://www.w3.org/2000/svg">
+${paths.map(path => `  ${renderPath(path, 'currentColor', false)}`).join('\n')}
+</svg>`;
+
+  return {
+    nodeId: node.id,
+    name: node.name,
+    componentName,
+    fileName: `${componentName}.tsx`,
+    react,
+    svg
+  };
+}
+
+export function generateIconComponents(figmaData: any): GeneratedIcon[] {
+  const icons: GeneratedIcon[] = [];
+  const usedNames = new Set<string>();
+
+  collectIconNodes(figmaData).forEach(node => {
+    const baseName = toIconComponentName(node.name);
+    let componentName = baseName;
+    for (let suffix = 2; usedNames.has(componentName); suffix++) {
+      componentName = `${baseName}${suffix}`;
+    }
+
+    const icon = generateIconComponentCode(node, componentName);
+    if (icon) {
+      usedNames.add(componentName);
+      icons.push(icon);
+    }
+  });
+
+  return icons;
+}
+
+export function generateIconIndex(componentNames: string[]): string {
+  return [...componentNames]
+    .sort()
+    .map(name => `export { default as ${name} } from "./${name}";`)
+    .join('\n');
+}
@@ -0,0 +1,179 @@
+import zlib from "zlib";
+
+// Minimal PNG codec for comparing renders: decodes every non-interlaced PNG to 8-bit RGBA
+// and encodes RGBA images back, so pixel diffs need no native image library
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+function unfilter(raw: Buffer, height: number, stride: number, bytesPerPixel: number): Uint8Array {
+  const pixels = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const value = raw[source + x];
+      const left = x >= bytesPerPixel ? pixels[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? pixels[previous + x - bytesPerPixel] : 0;
+
+      switch (filter) {
+        case 0: pixels[row + x] = value; break;
+        case 1: pixels[row + x] = value + left; break;
+        case 2: pixels[row + x] = value + up; break;
+        case 3: pixels[row + x] = value + ((left + up) >> 1); break;
+        case 4: pixels[row + x] = value + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+  }
+  return pixels;
+}
+
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < PNG_SIGNATURE.length || !buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG image');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const chunks: Buffer[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) {
+        throw new Error('Interlaced PNGs are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      chunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || width === 0 || height === 0) {
+    throw new Error('Unsupported or corrupt PNG header');
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil(width * bitsPerPixel / 8);
+  const pixels = unfilter(zlib.inflateSync(Buffer.concat(chunks)), height, stride, Math.max(1, bitsPerPixel >> 3));
+
+  // Samples are scaled to 8 bits; 16-bit samples keep their high byte
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (row: number, index: number): number => {
+    if (bitDepth === 16) return pixels[row + index * 2];
+    if (bitDepth === 8) return pixels[row + index];
+    const bit = index * bitDepth;
+    return (pixels[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  // tRNS keys hold the full sample, so 16-bit images are matched on both bytes
+  const keySample = (row: number, index: number): number =>
+    bitDepth === 16 ? (pixels[row + index * 2] << 8) | pixels[row + index * 2 + 1] : sample(row, index);
+  const scale = (value: number) => colorType === 3 ? value : Math.round(value * 255 / maxSample);
+  const transparentGray = transparency && colorType === 0 ? transparency.readUInt16BE(0) : -1;
+  const transparentRgb = transparency && colorType === 2
+    ? [transparency.readUInt16BE(0), transparency.readUInt16BE(2), transparency.readUInt16BE(4)]
+    : null;
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      const first = sample(row, x * channels);
+
+      if (colorType === 3) {
+        data[target] = palette ? palette[first * 3] : 0;
+        data[target + 1] = palette ? palette[first * 3 + 1] : 0;
+        data[target + 2] = palette ? palette[first * 3 + 2] : 0;
+        data[target + 3] = transparency && first < transparency.length ? transparency[first] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = scale(first);
+        data[target] = data[target + 1] = data[target + 2] = gray;
+        data[target + 3] = colorType === 4 ? scale(sample(row, x * channels + 1)) : keySample(row, x * channels) === transparentGray ? 0 : 255;
+      } else {
+        const green = sample(row, x * channels + 1);
+        const blue = sample(row, x * channels + 2);
+        data[target] = scale(first);
+        data[target + 1] = scale(green);
+        data[target + 2] = scale(blue);
+        data[target + 3] = colorType === 6
+          ? scale(sample(row, x * channels + 3))
+          : transparentRgb && keySample(row, x * channels) === transparentRgb[0] && keySample(row, x * channels + 1) === transparentRgb[1] &&
+            keySample(row, x * channels + 2) === transparentRgb[2] ? 0 : 255;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  const stride = image.width * 4;
+  const raw = Buffer.alloc(image.height * (stride + 1));
+  for (let y = 0; y < image.height; y++) {
+    Buffer.from(image.data.buffer, image.data.byteOffset + y * stride, stride).copy(raw, y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+}
@@ -0,0 +1,504 @@
+import type { FigmaVersion, VersionComparison } from "@shared/schema";
+import { storage } from "../storage";
+import { extractNodeStyles } from "./figma";
+
+// Semver impact on generated code: major breaks consumers, minor adds API, patch only changes visuals
+export type ChangeImpact = 'major' | 'minor' | 'patch';
+export type VersionBump = ChangeImpact | 'none';
+
+export type StyleCategory = 'fills' | 'typography' | 'spacing' | 'radius' | 'effects' | 'layout';
+
+export interface StyleChange {
+  category: StyleCategory;
+  property: string;
+  before?: any;
+  after?: any;
+}
+
+export interface ComponentSummary {
+  id: string;
+  name: string;
+  type: string;
+  impact?: ChangeImpact;
+}
+
+export interface VariantSummary {
+  id: string;
+  name: string;
+  properties: Record<string, string>;
+}
+
+export interface VariantChange extends VariantSummary {
+  previousProperties?: Record<string, string>;
+  styleChanges: StyleChange[];
+}
+
+export interface PropertyDefinitionChanges {
+  added: string[];
+  removed: string[];
+  renamed: { from: string; to: string }[];
+  modified: string[];
+}
+
+export interface LayerSummary {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface ComponentChange extends ComponentSummary {
+  impact: ChangeImpact;
+  previousName?: string;
+  styleChanges: StyleChange[];
+  // Layers inside the component, matched by node id
+  layers: { added: LayerSummary[]; removed: LayerSummary[] };
+  variants: { added: VariantSummary[]; removed: VariantSummary[]; modified: VariantChange[] };
+  propertyDefinitions: PropertyDefinitionChanges;
+}
+
+export type TokenCategory = 'colors' | 'typography' | 'spacing' | 'radii' | 'shadows' | 'grids' | 'variables';
+
+export interface TokenChange {
+  category: TokenCategory;
+  name: string;
+  change: 'added' | 'removed' | 'modified';
+  impact: ChangeImpact;
+  previousName?: string;
+  before?: any;
+  after?: any;
+}
+
+// Bumped whenever the diff changes shape or coverage; stored comparisons of another format are recomputed
+export const COMPARISON_FORMAT_VERSION = 3;
+
+export interface VersionComparisonData {
+  formatVersion: number;
+  changes: {
+    added: ComponentSummary[];
+    removed: ComponentSummary[];
+    renamed: { id: string; from: string; to: string; impact: ChangeImpact }[];
+    modified: ComponentChange[];
+  };
+  tokenChanges: TokenChange[];
+  colorChanges: TokenChange[];
+  typographyChanges: TokenChange[];
+  summary: {
+    totalChanges: number;
+    componentChanges: number;
+    designTokenChanges: number;
+    componentsAdded: number;
+    componentsRemoved: number;
+    componentsRenamed: number;
+    componentsModified: number;
+    breakingChanges: number;
+    minorChanges: number;
+    patchChanges: number;
+    suggestedBump: VersionBump;
+  };
+}
+
+const STYLE_TOKEN_CATEGORIES: TokenCategory[] = ['colors', 'typography', 'spacing', 'radii', 'shadows', 'grids'];
+
+const TYPOGRAPHY_STYLES = new Set([
+  'fontFamily', 'fontSize', 'fontStyle', 'fontWeight', 'fontVariantCaps', 'lineHeight', 'letterSpacing',
+  'textAlign', 'textDecoration', 'textTransform', 'textOverflow', 'whiteSpace', 'WebkitLineClamp', 'WebkitBoxOrient'
+]);
+const SPACING_STYLES = new Set(['gap', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft']);
+const EFFECT_STYLES = new Set(['boxShadow', 'textShadow', 'filter', 'backdropFilter', 'mixBlendMode', 'opacity']);
+
+function styleCategory(property: string): StyleCategory {
+  if (TYPOGRAPHY_STYLES.has(property)) return 'typography';
+  if (SPACING_STYLES.has(property)) return 'spacing';
+  if (EFFECT_STYLES.has(property)) return 'effects';
+  if (property.startsWith('borderRadius')) return 'radius';
+  if (property === 'color' || property.startsWith('background') || property === 'WebkitBackgroundClip' ||
+      property === 'borderColor' || property === 'borderWidth') {
+    return 'fills';
+  }
+  return 'layout';
+}
+
+// Snapshots go through the same extraction code, so serialized values compare reliably
+function isSameValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffStyles(before: Record<string, any> = {}, after: Record<string, any> = {}): StyleChange[] {
+  const properties = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return properties
+    .filter(property => !isSameValue(before[property], after[property]))
+    .map(property => ({ category: styleCategory(property), property, before: before[property], after: after[property] }));
+}
+
+// Text layers inside a component only show up in its typography tokens
+function diffTextStyles(before: Record<string, any> = {}, after: Record<string, any> = {}): StyleChange[] {
+  const names = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  return names
+    .filter(name => !isSameValue(before[name], after[name]))
+    .map(name => ({ category: 'typography' as const, property: `text.${name}`, before: before[name], after: after[name] }));
+}
+
+interface DescendantNode {
+  node: any;
+  parent: any;
+}
+
+// Snapshots keep each component's raw child nodes; variant roots are left to diffVariants
+function collectDescendants(component: any): Map<string, DescendantNode> {
+  const descendants = new Map<string, DescendantNode>();
+  const variantIds = new Set((component.variants || []).map((variant: any) => variant.id));
+
+  function visit(node: any, parent: any) {
+    if (!variantIds.has(node.id)) descendants.set(node.id, { node, parent });
+    (node.children || []).forEach((child: any) => visit(child, node));
+  }
+  (component.children || []).forEach((child: any) => visit(child, component));
+
+  return descendants;
+}
+
+// Descendants are matched by node id; their typography is already covered by the text styles
+function diffDescendantStyles(before: any, after: any): StyleChange[] {
+  const beforeDescendants = collectDescendants(before);
+  const changes: StyleChange[] = [];
+
+  collectDescendants(after).forEach(({ node, parent }, id) => {
+    const previous = beforeDescendants.get(id);
+    if (!previous) return;
+    diffStyles(extractNodeStyles(previous.node, previous.parent), extractNodeStyles(node, parent))
+      .filter(change => change.category !== 'typography')
+      .forEach(change => changes.push({ ...change, property: `${node.name}.${change.property}` }));
+  });
+
+  return changes;
+}
+
+function toLayerSummary({ node }: DescendantNode): LayerSummary {
+  return { id: node.id, name: node.name, type: node.type };
+}
+
+// Layer changes alter the rendered markup, not the component's API
+function diffLayers(before: any, after: any) {
+  const beforeDescendants = collectDescendants(before);
+  const afterDescendants = collectDescendants(after);
+  return {
+    added: Array.from(afterDescendants.entries()).filter(([id]) => !beforeDescendants.has(id)).map(([, entry]) => toLayerSummary(entry)),
+    removed: Array.from(beforeDescendants.entries()).filter(([id]) => !afterDescendants.has(id)).map(([, entry]) => toLayerSummary(entry))
+  };
+}
+
+function toVariantSummary(variant: any): VariantSummary {
+  return { id: variant.id, name: variant.name, properties: variant.properties || {} };
+}
+
+function diffVariants(before: any[] = [], after: any[] = []) {
+  const beforeById = new Map(before.map(variant => [variant.id, variant]));
+  const afterById = new Map(after.map(variant => [variant.id, variant]));
+
+  const modified: VariantChange[] = [];
+  after.forEach(variant => {
+    const previous = beforeById.get(variant.id);
+    if (!previous) return;
+
+    const styleChanges = diffStyles(previous.styles, variant.styles);
+    const propertiesChanged = !isSameValue(previous.properties || {}, variant.properties || {});
+    if (styleChanges.length > 0 || propertiesChanged) {
+      modified.push({
+        ...toVariantSummary(variant),
+        ...(propertiesChanged ? { previousProperties: previous.properties || {} } : {}),
+        styleChanges
+      });
+    }
+  });
+
+  return {
+    added: after.filter(variant => !beforeById.has(variant.id)).map(toVariantSummary),
+    removed: before.filter(variant => !afterById.has(variant.id)).map(toVariantSummary),
+    modified
+  };
+}
+
+// Component property keys look like "Label#12:3"; the part after '#' survives a rename
+function propertyDefinitionId(key: string): string {
+  const separator = key.lastIndexOf('#');
+  return separator > 0 ? key.slice(separator + 1) : key;
+}
+
+function diffPropertyDefinitions(before: Record<string, any> = {}, after: Record<string, any> = {}): PropertyDefinitionChanges {
+  const changes: PropertyDefinitionChanges = { added: [], removed: [], renamed: [], modified: [] };
+  const beforeById = new Map(Object.keys(before).map(key => [propertyDefinitionId(key), key]));
+  const afterIds = new Set(Object.keys(after).map(propertyDefinitionId));
+
+  Object.keys(after).forEach(key => {
+    const previousKey = beforeById.get(propertyDefinitionId(key));
+    if (!previousKey) {
+      changes.added.push(key);
+      return;
+    }
+    if (previousKey !== key) {
+      changes.renamed.push({ from: previousKey, to: key });
+    }
+    if (!isSameValue(before[previousKey], after[key])) {
+      changes.modified.push(key);
+    }
+  });
+  Object.keys(before).forEach(key => {
+    if (!afterIds.has(propertyDefinitionId(key))) changes.removed.push(key);
+  });
+
+  return changes;
+}
+
+const IMPACT_ORDER: VersionBump[] = ['none', 'patch', 'minor', 'major'];
+
+function highestImpact(impacts: VersionBump[]): VersionBump {
+  return impacts.reduce<VersionBump>((highest, impact) =>
+    IMPACT_ORDER.indexOf(impact) > IMPACT_ORDER.indexOf(highest) ? impact : highest, 'none');
+}
+
+// Dropping a variant option breaks code passing it as a prop value; adding one extends the API
+function propertyDefinitionImpact(before: any, after: any): ChangeImpact {
+  const beforeOptions: string[] = before?.variantOptions || [];
+  const afterOptions: string[] = after?.variantOptions || [];
+  if (before?.type !== after?.type || beforeOptions.some(option => !afterOptions.includes(option))) return 'major';
+  if (afterOptions.some(option => !beforeOptions.includes(option))) return 'minor';
+  return 'patch';
+}
+
+function classifyComponentChange(change: Omit<ComponentChange, 'impact'>, before: any, after: any): ChangeImpact {
+  const { variants, propertyDefinitions } = change;
+  const beforeDefinitions = before.propertyDefinitions || {};
+  const afterDefinitions = after.propertyDefinitions || {};
+  const previousKeys = new Map(propertyDefinitions.renamed.map(rename => [rename.to, rename.from]));
+
+  const impacts: VersionBump[] = propertyDefinitions.modified.map(key =>
+    propertyDefinitionImpact(beforeDefinitions[previousKeys.get(key) ?? key], afterDefinitions[key])
+  );
+  if (change.previousName || variants.removed.length > 0 || propertyDefinitions.removed.length > 0 ||
+      propertyDefinitions.renamed.length > 0 || variants.modified.some(variant => variant.previousProperties)) {
+    impacts.push('major');
+  }
+  if (variants.added.length > 0 || propertyDefinitions.added.length > 0) {
+    impacts.push('minor');
+  }
+
+  const impact = highestImpact(impacts);
+  return impact === 'none' ? 'patch' : impact;
+}
+
+// Removed tokens and renamed variables break references to them; value tweaks are visual only
+function classifyTokenChange(change: Omit<TokenChange, 'impact'>): ChangeImpact {
+  if (change.change === 'removed' || change.previousName) return 'major';
+  return change.change === 'added' ? 'minor' : 'patch';
+}
+
+function toComponentSummary(component: any): ComponentSummary {
+  return { id: component.id, name: component.name, type: component.type };
+}
+
+function diffComponent(before: any, after: any): ComponentChange | null {
+  const styleChanges = [
+    ...diffStyles(before.styles, after.styles),
+    ...diffTextStyles(before.designTokens?.typography, after.designTokens?.typography),
+    ...diffDescendantStyles(before, after)
+  ];
+  const layers = diffLayers(before, after);
+  const variants = diffVariants(before.variants, after.variants);
+  const propertyDefinitions = diffPropertyDefinitions(before.propertyDefinitions, after.propertyDefinitions);
+
+  const hasChanges = styleChanges.length > 0 || layers.added.length + layers.removed.length > 0 ||
+    variants.added.length + variants.removed.length + variants.modified.length > 0 ||
+    Object.values(propertyDefinitions).some(list => list.length > 0);
+  if (!hasChanges) return null;
+
+  const change = {
+    ...toComponentSummary(after),
+    ...(before.name !== after.name ? { previousName: before.name } : {}),
+    styleChanges,
+    layers,
+    variants,
+    propertyDefinitions
+  };
+  return { ...change, impact: classifyComponentChange(change, before, after) };
+}
+
+function diffComponents(before: any[] = [], after: any[] = []) {
+  const beforeById = new Map(before.map(component => [component.id, component]));
+  const afterById = new Map(after.map(component => [component.id, component]));
+
+  const renamed: { id: string; from: string; to: string; impact: ChangeImpact }[] = [];
+  const modified: ComponentChange[] = [];
+  after.forEach(component => {
+    const previous = beforeById.get(component.id);
+    if (!previous) return;
+
+    // Generated component names follow the Figma name, so a rename changes the import
+    if (previous.name !== component.name) {
+      renamed.push({ id: component.id, from: previous.name, to: component.name, impact: 'major' });
+    }
+    const change = diffComponent(previous, component);
+    if (change) modified.push(change);
+  });
+
+  return {
+    added: after.filter(component => !beforeById.has(component.id))
+      .map(component => ({ ...toComponentSummary(component), impact: 'minor' as const })),
+    removed: before.filter(component => !afterById.has(component.id))
+      .map(component => ({ ...toComponentSummary(component), impact: 'major' as const })),
+    renamed,
+    modified
+  };
+}
+
+function tokenValue(token: any) {
+  const { name, description, ...value } = token;
+  return value;
+}
+
+// Style tokens are keyed by their style name; variables by id, so renamed variables are tracked as one change
+function diffTokenList(category: TokenCategory, before: any[] = [], after: any[] = [], keyOf: (token: any) => string): TokenChange[] {
+  const beforeByKey = new Map(before.map(token => [keyOf(token), token]));
+  const afterByKey = new Map(after.map(token => [keyOf(token), token]));
+  const changes: Omit<TokenChange, 'impact'>[] = [];
+
+  after.forEach(token => {
+    const previous = beforeByKey.get(keyOf(token));
+    if (!previous) {
+      changes.push({ category, name: token.name, change: 'added', after: tokenValue(token) });
+    } else if (previous.name !== token.name || !isSameValue(tokenValue(previous), tokenValue(token))) {
+      changes.push({
+        category,
+        name: token.name,
+        change: 'modified',
+        ...(previous.name !== token.name ? { previousName: previous.name } : {}),
+        before: tokenValue(previous),
+        after: tokenValue(token)
+      });
+    }
+  });
+  before.forEach(token => {
+    if (!afterByKey.has(keyOf(token))) {
+      changes.push({ category, name: token.name, change: 'removed', before: tokenValue(token) });
+    }
+  });
+
+  return changes.map(change => ({ ...change, impact: classifyTokenChange(change) }));
+}
+
+function diffDesignTokens(before: any = {}, after: any = {}): TokenChange[] {
+  const changes = STYLE_TOKEN_CATEGORIES.flatMap(category =>
+    diffTokenList(category, before[category], after[category], token => token.name)
+  );
+  return changes.concat(diffTokenList('variables', before.variables?.tokens, after.variables?.tokens, token => token.id));
+}
+
+type ComponentChanges = VersionComparisonData['changes'];
+
+// Counts and the suggested bump are derived from the change lists, so they always agree with them
+function buildComparisonData(changes: ComponentChanges, tokenChanges: TokenChange[]): VersionComparisonData {
+  // A renamed and restyled component is one change, rated by its most severe part
+  const changedComponents = new Map<string, ChangeImpact>();
+  [...changes.renamed, ...changes.modified].forEach(component => {
+    changedComponents.set(component.id, highestImpact([changedComponents.get(component.id) ?? 'patch', component.impact]) as ChangeImpact);
+  });
+  const componentChanges = changes.added.length + changes.removed.length + changedComponents.size;
+
+  const impacts: ChangeImpact[] = [
+    ...changes.added.map(component => component.impact ?? 'minor'),
+    ...changes.removed.map(component => component.impact ?? 'major'),
+    ...Array.from(changedComponents.values()),
+    ...tokenChanges.map(change => change.impact)
+  ];
+  const countOf = (impact: ChangeImpact) => impacts.filter(value => value === impact).length;
+
+  return {
+    formatVersion: COMPARISON_FORMAT_VERSION,
+    changes,
+    tokenChanges,
+    colorChanges: tokenChanges.filter(change => change.category === 'colors'),
+    typographyChanges: tokenChanges.filter(change => change.category === 'typography'),
+    summary: {
+      totalChanges: componentChanges + tokenChanges.length,
+      componentChanges,
+      designTokenChanges: tokenChanges.length,
+      componentsAdded: changes.added.length,
+      componentsRemoved: changes.removed.length,
+      componentsRenamed: changes.renamed.length,
+      componentsModified: changes.modified.length,
+      breakingChanges: countOf('major'),
+      minorChanges: countOf('minor'),
+      patchChanges: countOf('patch'),
+      suggestedBump: highestImpact(impacts)
+    }
+  };
+}
+
+// Structural diff of two figma_versions snapshots, components matched by node id
+export function compareVersions(fromVersion: FigmaVersion, toVersion: FigmaVersion): VersionComparisonData {
+  const changes = diffComponents(fromVersion.components as any[], toVersion.components as any[]);
+  return buildComparisonData(changes, diffDesignTokens(fromVersion.designTokens, toVersion.designTokens));
+}
+
+// Older rows that could not be recomputed lack lists and impacts; missing parts are filled in and
+// the summary is classified again from what the row does record
+export function readComparisonData(comparison: VersionComparison): VersionComparisonData {
+  const data = (comparison.comparisonData || {}) as any;
+  if (data.formatVersion === COMPARISON_FORMAT_VERSION) {
+    return data;
+  }
+
+  const changes = data.changes || {};
+  const modified: ComponentChange[] = (changes.modified || []).map((component: any) => ({
+    ...component,
+    impact: component.impact ?? 'patch',
+    styleChanges: component.styleChanges || [],
+    layers: { added: [], removed: [], ...component.layers },
+    variants: { added: [], removed: [], modified: [], ...component.variants },
+    propertyDefinitions: { added: [], removed: [], renamed: [], modified: [], ...component.propertyDefinitions }
+  }));
+  const tokenChanges: TokenChange[] = (data.tokenChanges || []).map((change: any) => ({ ...change, impact: change.impact ?? 'patch' }));
+
+  return buildComparisonData({
+    added: changes.added || [],
+    removed: changes.removed || [],
+    renamed: (changes.renamed || []).map((rename: any) => ({ ...rename, impact: rename.impact ?? 'major' })),
+    modified
+  }, tokenChanges);
+}
+
+// Rows written by an older diff are recomputed in place; without both versions they are returned as stored
+export async function refreshVersionComparison(comparison: VersionComparison): Promise<VersionComparison> {
+  if ((comparison.comparisonData as any)?.formatVersion === COMPARISON_FORMAT_VERSION) {
+    return comparison;
+  }
+
+  const fromVersion = await storage.getFigmaVersion(comparison.fromVersionId);
+  const toVersion = await storage.getFigmaVersion(comparison.toVersionId);
+  if (!fromVersion || !toVersion) {
+    return comparison;
+  }
+
+  const updated = await storage.updateVersionComparison(comparison.id, { comparisonData: compareVersions(fromVersion, toVersion) });
+  return updated ?? comparison;
+}
+
+// Comparisons are stored once per version pair and reused while their format is current
+export async function getOrCreateVersionComparison(fromVersionId: number, toVersionId: number) {
+  const existingComparison = await storage.getVersionComparison(fromVersionId, toVersionId);
+  if (existingComparison) {
+    return refreshVersionComparison(existingComparison);
+  }
+
+  const fromVersion = await storage.getFigmaVersion(fromVersionId);
+  const toVersion = await storage.getFigmaVersion(toVersionId);
+  if (!fromVersion || !toVersion) {
+    return null;
+  }
+
+  return storage.createVersionComparison({
+    projectId: fromVersion.projectId,
+    fromVersionId,
+    toVersionId,
+    comparisonData: compareVersions(fromVersion, toVersion)
+  });
+}
@@ -0,0 +1,141 @@
+import type { TrackingSchedule } from "@shared/schema";
+import { storage } from "../storage";
+import { FigmaApiError, getFigmaClient } from "./figma-client";
+import { runVersionTrackingJob } from "./version-tracking";
+
+// How often the scheduler looks for due schedules; each schedule has its own cadence
+const POLL_TICK_MS = Number(process.env.FIGMA_POLL_TICK_MS ?? 60000);
+const MAX_BACKOFF_MS = 24 * 60 * 60 * 1000;
+// Spreads checks out so projects with the same cadence do not hit Figma together
+const JITTER_RATIO = 0.1;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+function withJitter(ms: number): number {
+  return Math.round(ms * (1 + (Math.random() * 2 - 1) * JITTER_RATIO));
+}
+
+// Failures double the wait up to a day; a Retry-After from Figma is never undercut
+export function nextRunAfter(schedule: TrackingSchedule, failures: number, retryAfterMs?: number): Date {
+  const intervalMs = schedule.intervalMinutes * 60 * 1000;
+  const delay = failures > 0
+    ? Math.max(Math.min(intervalMs * 2 ** failures, MAX_BACKOFF_MS), retryAfterMs ?? 0)
+    : intervalMs;
+  return new Date(Date.now() + withJitter(delay));
+}
+
+// Compares the file's lastModified with the last one seen and snapshots a new version when it moved
+async function checkTrackedProject(schedule: TrackingSchedule) {
+  const token = process.env.FIGMA_API_TOKEN;
+  const project = await storage.getFigmaProject(schedule.projectId);
+
+  if (!project || !token) {
+    await storage.updateTrackingSchedule(schedule.id, {
+      lastCheckedAt: new Date(),
+      lastError: project ? 'FIGMA_API_TOKEN is not configured' : 'Project not found',
+      consecutiveFailures: schedule.consecutiveFailures + 1,
+      nextRunAt: nextRunAfter(schedule, schedule.consecutiveFailures + 1)
+    });
+    return null;
+  }
+
+  try {
+    const head = await getFigmaClient().getFile(project.figmaFileId, token, { depth: '1' });
+    const [latestVersion] = await storage.getFigmaVersionsByProject(project.id);
+    // A version captured elsewhere (webhook, manual snapshot) already covers the change
+    const changed = head.lastModified !== schedule.lastModified && head.lastModified !== latestVersion?.figmaLastModified;
+
+    let versionId: number | undefined;
+    if (changed) {
+      const job = await storage.createProcessingJob({
+        type: 'version_tracking',
+        status: 'processing',
+        inputData: { projectId: project.id, fileId: project.figmaFileId, trigger: 'polling' },
+        outputData: null,
+        errorMessage: null,
+        progressPercentage: 0,
+        userId: project.userId ?? 1
+      });
+      const version = await runVersionTrackingJob(job.id, {
+        projectId: project.id,
+        fileId: project.figmaFileId,
+        token,
+        versionName: `${head.name || project.name} (${head.lastModified})`,
+        versionDescription: 'Captured by scheduled polling'
+      });
+      if (!version) {
+        throw new Error('Version snapshot failed');
+      }
+      versionId = version.id;
+    }
+
+    const now = new Date();
+    await storage.updateTrackingSchedule(schedule.id, {
+      lastModified: head.lastModified,
+      lastCheckedAt: now,
+      lastChangedAt: changed ? now : schedule.lastChangedAt,
+      lastError: null,
+      consecutiveFailures: 0,
+      nextRunAt: nextRunAfter(schedule, 0)
+    });
+    return { changed, versionId };
+
+  } catch (error) {
+    const failures = schedule.consecutiveFailures + 1;
+    await storage.updateTrackingSchedule(schedule.id, {
+      lastCheckedAt: new Date(),
+      lastError: error instanceof Error ? error.message : 'Unknown error',
+      consecutiveFailures: failures,
+      nextRunAt: nextRunAfter(schedule, failures, error instanceof FigmaApiError ? error.retryAfterMs : undefined)
+    });
+    return null;
+  }
+}
+
+// Manual checks take the scheduler's lock so one change is never snapshotted twice by overlapping checks
+export async function checkTrackedProjectNow(projectId: number) {
+  if (polling) return { busy: true as const };
+  polling = true;
+
+  try {
+    // Read under the lock so a check that just finished is not repeated with stale state
+    const schedule = await storage.getTrackingSchedule(projectId);
+    const result = schedule ? await checkTrackedProject(schedule) : null;
+    return { busy: false as const, schedule, result };
+  } finally {
+    polling = false;
+  }
+}
+
+// Due schedules are checked one after another so a large backlog cannot burst the rate limit
+export async function runDueChecks() {
+  if (polling) return;
+  polling = true;
+
+  try {
+    const now = Date.now();
+    const due = (await storage.getTrackingSchedules())
+      .filter(schedule => schedule.enabled && new Date(schedule.nextRunAt).getTime() <= now);
+
+    for (const schedule of due) {
+      await checkTrackedProject(schedule);
+    }
+  } catch (error) {
+    console.error("Version polling failed:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+export function startVersionPolling() {
+  if (pollTimer || POLL_TICK_MS <= 0) return;
+
+  const tick = async () => {
+    await runDueChecks();
+    pollTimer = setTimeout(tick, POLL_TICK_MS);
+    pollTimer.unref();
+  };
+  pollTimer = setTimeout(tick, POLL_TICK_MS);
+  pollTimer.unref();
+}
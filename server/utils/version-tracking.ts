@@ -0,0 +1,114 @@
+import type { FigmaVersion } from "@shared/schema";
+import { storage } from "../storage";
+import type { AssetManifest, ComponentAsset } from "./assets";
+import { saveGeneratedComponents, saveIconComponents } from "./component-generation";
+import { figmaErrorDetails } from "./figma-client";
+import { fetchFigmaFileCached } from "./figma-cache";
+import { fetchFigmaVariables, extractComponentsFromFigmaData, extractDesignTokens, renderVariableCss } from "./figma";
+
+export interface VersionSnapshotRequest {
+  projectId: number;
+  fileId: string;
+  token: string;
+  versionName: string;
+  versionDescription?: string;
+}
+
+// Background body of a version_tracking job: snapshots the file's components and tokens as a figma_versions row
+export async function runVersionTrackingJob(jobId: number, request: VersionSnapshotRequest) {
+  try {
+    await storage.updateProcessingJob(jobId, { progressPercentage: 25 });
+
+    // Vector paths are kept so icons can be regenerated from the snapshot
+    const { figmaData, cacheHit } = await fetchFigmaFileCached(request.fileId, request.token, { geometry: true });
+    await storage.updateProcessingJob(jobId, { progressPercentage: 50 });
+
+    const components = await extractComponentsFromFigmaData(figmaData);
+    const variablesData = await fetchFigmaVariables(request.fileId, request.token);
+    const designTokens = extractDesignTokens(figmaData, variablesData);
+    await storage.updateProcessingJob(jobId, { progressPercentage: 75 });
+
+    const version = await storage.createFigmaVersion({
+      projectId: request.projectId,
+      versionName: request.versionName,
+      versionDescription: request.versionDescription || '',
+      figmaLastModified: figmaData.lastModified,
+      figmaVersionId: figmaData.version,
+      figmaData: figmaData,
+      components: components,
+      designTokens: designTokens,
+      thumbnailUrl: figmaData.thumbnailUrl
+    });
+
+    await storage.updateProcessingJob(jobId, { 
+      status: 'completed',
+      progressPercentage: 100,
+      outputData: { versionId: version.id, cacheHit }
+    });
+    return version;
+
+  } catch (error) {
+    await storage.updateProcessingJob(jobId, { 
+      status: 'failed',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      outputData: figmaErrorDetails(error),
+      progressPercentage: 100
+    });
+    return null;
+  }
+}
+
+// Image fills are content-addressed, so assets the project already exported still match old snapshots;
+// vectors point at their latest export
+async function collectProjectAssets(projectId: number): Promise<AssetManifest> {
+  const manifest: AssetManifest = {};
+  const components = await storage.getComponentsByProject(projectId);
+  components.forEach(component => {
+    ((component.generatedCode as any)?.assets || []).forEach((asset: ComponentAsset) => {
+      manifest[asset.key] = asset;
+    });
+  });
+  return manifest;
+}
+
+// Background body of a version_regeneration job: generates code from a stored snapshot into a new set of
+// generated_components tagged with the version id, without contacting Figma
+export async function runVersionRegenerationJob(jobId: number, version: FigmaVersion, options: { generateIcons?: boolean } = {}) {
+  try {
+    const manifest = await collectProjectAssets(version.projectId);
+    await storage.updateProcessingJob(jobId, { progressPercentage: 25 });
+
+    const designTokens = version.designTokens as any;
+    const target = { projectId: version.projectId, versionId: version.id };
+    const generatedComponents = await saveGeneratedComponents(version.components as any[], designTokens, manifest, {
+      ...target,
+      sourceType: 'figma_version'
+    });
+    await storage.updateProcessingJob(jobId, { progressPercentage: 90 });
+
+    const iconsCount = options.generateIcons ? await saveIconComponents(version.figmaData, target) : 0;
+
+    const output = {
+      projectId: version.projectId,
+      versionId: version.id,
+      versionName: version.versionName,
+      componentsCount: generatedComponents.length,
+      iconsCount,
+      themeCss: renderVariableCss(designTokens.variables)
+    };
+    await storage.updateProcessingJob(jobId, {
+      status: 'completed',
+      progressPercentage: 100,
+      outputData: output
+    });
+    return output;
+
+  } catch (error) {
+    await storage.updateProcessingJob(jobId, {
+      status: 'failed',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      progressPercentage: 100
+    });
+    return null;
+  }
+}
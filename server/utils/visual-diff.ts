@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import type { FigmaVersion, VersionComparison } from "@shared/schema";
+import { storage } from "../storage";
+import { downloadBuffer, FigmaImageSource } from "./assets";
+import { figmaErrorDetails } from "./figma-client";
+import { FIGMA_API_MODE, FIGMA_FIXTURES_DIR, toFixtureSegment } from "./figma-fixtures";
+import { decodePng, encodePng, type RgbaImage } from "./png";
+
+// Overlay images are written here, one directory per comparison
+const VISUAL_DIFF_DIR = process.env.VISUAL_DIFF_DIR || path.resolve("storage", "visual-diffs");
+// Per-channel difference (0-1) above which a pixel counts as changed; absorbs anti-aliasing noise
+const DIFF_THRESHOLD = Number(process.env.VISUAL_DIFF_THRESHOLD ?? 0.1);
+
+export interface VersionImageSource {
+  loadThumbnail(version: FigmaVersion): Promise<Buffer | null>;
+  renderComponents(version: FigmaVersion, nodeIds: string[]): Promise<Map<string, Buffer>>;
+}
+
+export interface VisualDiffEntry {
+  nodeId: string | null;
+  name: string;
+  width: number;
+  height: number;
+  changedPixels: number;
+  changedPercentage: number;
+  overlay: string | null;
+}
+
+export interface VisualDiffResult {
+  threshold: number;
+  // Null when either thumbnail is missing or cannot be decoded
+  thumbnail: VisualDiffEntry | null;
+  components: VisualDiffEntry[];
+  // Components present in both versions whose render could not be loaded or decoded for either side
+  unavailable: string[];
+  generatedAt: string;
+}
+
+export class FigmaVersionImageSource implements VersionImageSource {
+  private images: FigmaImageSource;
+
+  constructor(private fileKey: string, token: string) {
+    this.images = new FigmaImageSource(token);
+  }
+
+  async loadThumbnail(version: FigmaVersion): Promise<Buffer | null> {
+    if (!version.thumbnailUrl) return null;
+    try {
+      return await downloadBuffer(version.thumbnailUrl);
+    } catch (error) {
+      // Thumbnail URLs expire, so old versions may no longer have one
+      return null;
+    }
+  }
+
+  renderComponents(version: FigmaVersion, nodeIds: string[]): Promise<Map<string, Buffer>> {
+    return this.images.renderNodes(this.fileKey, nodeIds, 'png', version.figmaVersionId || undefined);
+  }
+}
+
+// Reads PNGs laid out as versions/<figma version id>/thumbnail.png and versions/<figma version id>/renders/<node-id>.png,
+// with ':' and ';' in node ids replaced by '-'. Versions without a Figma version id use their row id.
+export class FixtureVersionImageSource implements VersionImageSource {
+  constructor(private directory: string) {}
+
+  private versionDirectory(version: FigmaVersion): string {
+    return path.join(this.directory, 'versions', toFixtureSegment(version.figmaVersionId || String(version.id)));
+  }
+
+  private readIfExists(filePath: string): Buffer | null {
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+  }
+
+  async loadThumbnail(version: FigmaVersion): Promise<Buffer | null> {
+    return this.readIfExists(path.join(this.versionDirectory(version), 'thumbnail.png'));
+  }
+
+  async renderComponents(version: FigmaVersion, nodeIds: string[]): Promise<Map<string, Buffer>> {
+    const buffers = new Map<string, Buffer>();
+    nodeIds.forEach(nodeId => {
+      const buffer = this.readIfExists(path.join(this.versionDirectory(version), 'renders', `${toFixtureSegment(nodeId)}.png`));
+      if (buffer) buffers.set(nodeId, buffer);
+    });
+    return buffers;
+  }
+}
+
+// Same selection as asset exports; returns null when only the Figma API could serve the images and no token is given
+export function createVersionImageSource(fileKey: string, token?: string): VersionImageSource | null {
+  if (process.env.FIGMA_ASSET_FIXTURES_DIR) {
+    return new FixtureVersionImageSource(process.env.FIGMA_ASSET_FIXTURES_DIR);
+  }
+  if (FIGMA_API_MODE === 'mock') {
+    return new FixtureVersionImageSource(FIGMA_FIXTURES_DIR);
+  }
+  return token ? new FigmaVersionImageSource(fileKey, token) : null;
+}
+
+export function getVisualDiffPath(comparisonId: number, fileName: string): string {
+  return path.join(VISUAL_DIFF_DIR, String(comparisonId), path.basename(fileName));
+}
+
+// Pixels are composited on white so a transparent and a white pixel compare as equal
+function compositeChannel(image: RgbaImage, x: number, y: number, channel: number): number {
+  if (x >= image.width || y >= image.height) return 255;
+  const index = (y * image.width + x) * 4;
+  const alpha = image.data[index + 3] / 255;
+  return 255 + (image.data[index + channel] - 255) * alpha;
+}
+
+// Images of different sizes are compared over the larger area; pixels outside either image count as changed.
+// The overlay shows the new image faded to grey with changed pixels in red.
+export function diffImages(before: RgbaImage, after: RgbaImage, threshold: number = DIFF_THRESHOLD) {
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const overlay: RgbaImage = { width, height, data: new Uint8Array(width * height * 4) };
+  let changedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      const outside = x >= before.width || y >= before.height || x >= after.width || y >= after.height;
+
+      let changed = outside;
+      for (let channel = 0; channel < 3 && !changed; channel++) {
+        const delta = Math.abs(compositeChannel(before, x, y, channel) - compositeChannel(after, x, y, channel));
+        changed = delta / 255 > threshold;
+      }
+
+      if (changed) {
+        changedPixels++;
+        overlay.data.set([255, 0, 0, 255], index);
+      } else {
+        const luma = 0.299 * compositeChannel(after, x, y, 0) + 0.587 * compositeChannel(after, x, y, 1) + 0.114 * compositeChannel(after, x, y, 2);
+        const faded = Math.round(255 + (luma - 255) * 0.2);
+        overlay.data.set([faded, faded, faded, 255], index);
+      }
+    }
+  }
+
+  const totalPixels = width * height;
+  return {
+    width,
+    height,
+    changedPixels,
+    changedPercentage: totalPixels > 0 ? Math.round(changedPixels / totalPixels * 10000) / 100 : 0,
+    overlay
+  };
+}
+
+// Returns null when either image cannot be decoded, e.g. a corrupt or non-PNG fixture
+function diffBuffers(comparisonId: number, before: Buffer, after: Buffer, nodeId: string | null, name: string): VisualDiffEntry | null {
+  let result: ReturnType<typeof diffImages>;
+  try {
+    result = diffImages(decodePng(before), decodePng(after));
+  } catch (error) {
+    return null;
+  }
+
+  // Unchanged images need no overlay
+  let overlay: string | null = null;
+  if (result.changedPixels > 0) {
+    overlay = nodeId ? `node-${toFixtureSegment(nodeId)}.png` : 'thumbnail.png';
+    const overlayPath = getVisualDiffPath(comparisonId, overlay);
+    fs.mkdirSync(path.dirname(overlayPath), { recursive: true });
+    fs.writeFileSync(overlayPath, encodePng(result.overlay));
+  }
+
+  return {
+    nodeId,
+    name,
+    width: result.width,
+    height: result.height,
+    changedPixels: result.changedPixels,
+    changedPercentage: result.changedPercentage,
+    overlay
+  };
+}
+
+// Background body of a visual_diff job: compares thumbnails and renders of components present in both versions
+export async function runVisualDiffJob(jobId: number, comparison: VersionComparison, source: VersionImageSource) {
+  try {
+    const fromVersion = await storage.getFigmaVersion(comparison.fromVersionId);
+    const toVersion = await storage.getFigmaVersion(comparison.toVersionId);
+    if (!fromVersion || !toVersion) {
+      throw new Error('Compared versions no longer exist');
+    }
+
+    // Overlays from an earlier run would otherwise outlive entries that no longer change
+    fs.rmSync(path.join(VISUAL_DIFF_DIR, String(comparison.id)), { recursive: true, force: true });
+
+    const [fromThumbnail, toThumbnail] = await Promise.all([source.loadThumbnail(fromVersion), source.loadThumbnail(toVersion)]);
+    const thumbnail = fromThumbnail && toThumbnail
+      ? diffBuffers(comparison.id, fromThumbnail, toThumbnail, null, 'Thumbnail')
+      : null;
+    await storage.updateProcessingJob(jobId, { progressPercentage: 25 });
+
+    const fromIds = new Set((fromVersion.components as any[]).map(component => component.id));
+    const shared = (toVersion.components as any[]).filter(component => fromIds.has(component.id));
+    const nodeIds = shared.map(component => component.id);
+
+    const fromRenders = await source.renderComponents(fromVersion, nodeIds);
+    await storage.updateProcessingJob(jobId, { progressPercentage: 50 });
+    const toRenders = await source.renderComponents(toVersion, nodeIds);
+    await storage.updateProcessingJob(jobId, { progressPercentage: 75 });
+
+    const components: VisualDiffEntry[] = [];
+    const unavailable: string[] = [];
+    shared.forEach(component => {
+      const before = fromRenders.get(component.id);
+      const after = toRenders.get(component.id);
+      const entry = before && after ? diffBuffers(comparison.id, before, after, component.id, component.name) : null;
+      if (entry) {
+        components.push(entry);
+      } else {
+        unavailable.push(component.id);
+      }
+    });
+
+    const visualDiff: VisualDiffResult = {
+      threshold: DIFF_THRESHOLD,
+      thumbnail,
+      components,
+      unavailable,
+      generatedAt: new Date().toISOString()
+    };
+    await storage.updateVersionComparison(comparison.id, { visualDiff });
+
+    await storage.updateProcessingJob(jobId, {
+      status: 'completed',
+      progressPercentage: 100,
+      outputData: {
+        comparisonId: comparison.id,
+        componentsCompared: components.length,
+        componentsChanged: components.filter(entry => entry.changedPixels > 0).length
+      }
+    });
+    return visualDiff;
+
+  } catch (error) {
+    await storage.updateProcessingJob(jobId, {
+      status: 'failed',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      outputData: figmaErrorDetails(error),
+      progressPercentage: 100
+    });
+    return null;
+  }
+}
@@ -22,11 +22,12 @@ export const generatedComponents = pgTable("generated_components", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   projectId: integer("project_id").references(() => figmaProjects.id),
-  sourceType: text("source_type").notNull(), // 'figma_url' | 'css_import' | 'batch'
+  sourceType: text("source_type").notNull(), // 'figma_url' | 'figma_icon' | 'figma_version' | 'css_import' | 'batch'
   sourceData: jsonb("source_data"), // Store figma data or CSS code
   generatedCode: jsonb("generated_code"), // Store React, CSS, Tailwind code
   designTokens: jsonb("design_tokens"), // Store extracted design tokens
   metadata: jsonb("metadata"), // Store processing metadata
+  versionId: integer("version_id").references(() => figmaVersions.id), // Set when regenerated from a stored version
   isPublic: boolean("is_public").default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -51,12 +52,28 @@ export const versionComparisons = pgTable("version_comparisons", {
   fromVersionId: integer("from_version_id").references(() => figmaVersions.id).notNull(),
   toVersionId: integer("to_version_id").references(() => figmaVersions.id).notNull(),
   comparisonData: jsonb("comparison_data").notNull(), // Changes analysis
+  visualDiff: jsonb("visual_diff"), // Pixel diff of thumbnails and component renders
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Polling schedule and last known state for projects tracked without webhooks
+export const trackingSchedules = pgTable("tracking_schedules", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => figmaProjects.id).notNull().unique(),
+  intervalMinutes: integer("interval_minutes").default(60).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  lastModified: text("last_modified"), // Figma lastModified seen on the last successful check
+  lastCheckedAt: timestamp("last_checked_at"),
+  lastChangedAt: timestamp("last_changed_at"),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(),
+  lastError: text("last_error"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const processingJobs = pgTable("processing_jobs", {
   id: serial("id").primaryKey(),
-  type: text("type").notNull(), // 'figma_extraction' | 'css_processing' | 'batch_processing' | 'version_tracking'
+  type: text("type").notNull(), // 'figma_extraction' | 'css_processing' | 'batch_processing' | 'version_tracking' | 'visual_diff' | 'version_regeneration'
   status: text("status").notNull(), // 'pending' | 'processing' | 'completed' | 'failed'
   inputData: jsonb("input_data"),
   outputData: jsonb("output_data"),
@@ -93,6 +110,11 @@ export const insertVersionComparisonSchema = createInsertSchema(versionCompariso
   createdAt: true,
 });
 
+export const insertTrackingScheduleSchema = createInsertSchema(trackingSchedules).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({
   id: true,
   createdAt: true,
@@ -106,8 +128,10 @@ export type FigmaVersion = typeof figmaVersions.$inferSelect;
 export type VersionComparison = typeof versionComparisons.$inferSelect;
 export type GeneratedComponent = typeof generatedComponents.$inferSelect;
 export type ProcessingJob = typeof processingJobs.$inferSelect;
+export type TrackingSchedule = typeof trackingSchedules.$inferSelect;
 export type InsertFigmaProject = z.infer<typeof insertFigmaProjectSchema>;
 export type InsertFigmaVersion = z.infer<typeof insertFigmaVersionSchema>;
 export type InsertVersionComparison = z.infer<typeof insertVersionComparisonSchema>;
 export type InsertGeneratedComponent = z.infer<typeof insertGeneratedComponentSchema>;
 export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+export type InsertTrackingSchedule = z.infer<typeof insertTrackingScheduleSchema>;
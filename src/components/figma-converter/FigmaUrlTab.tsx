@@ -1,9 +1,9 @@
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ExternalLink, Download, AlertCircle } from "lucide-react";
+import { ExternalLink, Download, AlertCircle, Upload } from "lucide-react";
 import { FigmaService } from "@/services/figmaService";
 import { useErrorHandler } from "@/hooks/useErrorHandler";
 import { useJobPolling } from "@/hooks/useJobPolling";
@@ -13,6 +13,7 @@ import { toast } from "sonner";
 export default function FigmaUrlTab() {
   const [figmaUrl, setFigmaUrl] = useState("");
   const [currentJobId, setCurrentJobId] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { state, dispatch } = useAppContext();
   const { handleError } = useErrorHandler();
 
@@ -54,6 +55,32 @@ export default function FigmaUrlTab() {
     }
   };
 
+  // Saved REST responses and plugin exports can be imported without a token
+  const handleJsonUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    dispatch({ type: 'SET_PROCESSING', payload: true });
+
+    try {
+      let data;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+
+      const response = await FigmaService.importJson(data, file.name);
+      setCurrentJobId(response.jobId);
+
+      toast.success(`Importing ${file.name}...`);
+    } catch (error) {
+      dispatch({ type: 'SET_PROCESSING', payload: false });
+      handleError(error as Error, 'Figma JSON Import');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -108,6 +135,29 @@ export default function FigmaUrlTab() {
           >
             {state.isProcessing || isPolling ? "Processing..." : "Import Figma File"}
           </Button>
+
+          <div className="flex items-center gap-3">
+            <div className="h-px flex-1 bg-border" />
+            <span className="text-xs text-muted-foreground">or upload an exported JSON file</span>
+            <div className="h-px flex-1 bg-border" />
+          </div>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleJsonUpload}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={state.isProcessing || isPolling}
+            className="w-full"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Upload Figma JSON
+          </Button>
         </CardContent>
       </Card>
 
@@ -1,8 +1,117 @@
 
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { GitBranch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { GitBranch, History, RefreshCw, RotateCcw } from "lucide-react";
+import { TrackingService, TrackingStatus } from "@/services/trackingService";
+import { FigmaVersion, VersionService } from "@/services/versionService";
+import { ProcessingJob } from "@/services/jobService";
+import { useErrorHandler } from "@/hooks/useErrorHandler";
+import { useJobPolling } from "@/hooks/useJobPolling";
+import { toast } from "sonner";
+
+const REFRESH_INTERVAL_MS = 30000;
+
+function formatRelative(value: string | null, fallback: string) {
+  return value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : fallback;
+}
 
 export default function VersionTrackingTab() {
+  const [statuses, setStatuses] = useState<TrackingStatus[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [intervalMinutes, setIntervalMinutes] = useState("60");
+  const [checkingProjectId, setCheckingProjectId] = useState<number | null>(null);
+  const [versionsProject, setVersionsProject] = useState<TrackingStatus | null>(null);
+  const [versions, setVersions] = useState<FigmaVersion[]>([]);
+  const [regenerateJobId, setRegenerateJobId] = useState<number | null>(null);
+  const { handleError } = useErrorHandler();
+
+  const handleRegenerated = useCallback((completedJob: ProcessingJob) => {
+    const output = completedJob.outputData || {};
+    toast.success(`Regenerated ${output.componentsCount ?? 0} components from ${output.versionName || 'version'}`);
+    setRegenerateJobId(null);
+  }, []);
+  const { job: regenerateJob, isPolling: isRegenerating } = useJobPolling(regenerateJobId, handleRegenerated);
+
+  // Failures are reported by the polling hook; clearing the id re-enables the regenerate buttons
+  useEffect(() => {
+    if (regenerateJob?.status === 'failed') {
+      setRegenerateJobId(null);
+    }
+  }, [regenerateJob?.status]);
+
+  const loadStatuses = useCallback(async () => {
+    try {
+      setStatuses(await TrackingService.getStatuses());
+    } catch (error) {
+      handleError(error as Error, 'Version Tracking');
+    }
+  }, [handleError]);
+
+  useEffect(() => {
+    loadStatuses();
+    const interval = setInterval(loadStatuses, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadStatuses]);
+
+  const handleTrack = async () => {
+    const id = parseInt(projectId);
+    const minutes = parseInt(intervalMinutes);
+    if (!id || !minutes) {
+      toast.error("Enter a project ID and a polling interval");
+      return;
+    }
+
+    try {
+      await TrackingService.trackProject(id, minutes);
+      toast.success(`Polling project ${id} every ${minutes} minutes`);
+      setProjectId("");
+      await loadStatuses();
+    } catch (error) {
+      handleError(error as Error, 'Version Tracking');
+    }
+  };
+
+  const handleCheckNow = async (status: TrackingStatus) => {
+    setCheckingProjectId(status.projectId);
+    try {
+      const result = await TrackingService.checkNow(status.projectId);
+      if (!result.ok) {
+        toast.error(`Check failed: ${result.error}`);
+      } else {
+        toast.success(result.changed ? "Changes found, new version captured" : "No changes since the last check");
+      }
+      await loadStatuses();
+    } catch (error) {
+      handleError(error as Error, 'Version Tracking');
+    } finally {
+      setCheckingProjectId(null);
+    }
+  };
+
+  const handleShowVersions = async (status: TrackingStatus) => {
+    try {
+      setVersions(await VersionService.getVersions(status.projectId));
+      setVersionsProject(status);
+    } catch (error) {
+      handleError(error as Error, 'Version Tracking');
+    }
+  };
+
+  // Old snapshots are regenerated into a new component set, the current code is left untouched
+  const handleRegenerate = async (version: FigmaVersion) => {
+    try {
+      const response = await VersionService.regenerate(version.id);
+      setRegenerateJobId(response.jobId);
+      toast.success(`Regenerating code from ${version.versionName}...`);
+    } catch (error) {
+      handleError(error as Error, 'Version Regeneration');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <Card>
@@ -12,12 +121,125 @@ export default function VersionTrackingTab() {
             Version Tracking
           </CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <p className="text-muted-foreground">
             Track design versions and changes over time
           </p>
+
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              placeholder="Project ID"
+            />
+            <Input
+              type="number"
+              min={1}
+              value={intervalMinutes}
+              onChange={(e) => setIntervalMinutes(e.target.value)}
+              placeholder="Interval (minutes)"
+            />
+            <Button onClick={handleTrack}>Track</Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tracked Projects</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {statuses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No projects are being polled yet</p>
+          ) : (
+            <div className="space-y-2">
+              {statuses.map((status) => (
+                <div key={status.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                  <div className="space-y-1">
+                    <p className="font-medium">{status.projectName || `Project ${status.projectId}`}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Every {status.intervalMinutes} min · Last checked {formatRelative(status.lastCheckedAt, "never")} · Last change {formatRelative(status.lastChangedAt, "none yet")}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Next run {status.enabled ? formatRelative(status.nextRunAt, "soon") : "paused"}
+                    </p>
+                    {status.lastError && (
+                      <p className="text-sm text-destructive">{status.lastError}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleShowVersions(status)}>
+                      <History className="h-4 w-4 mr-2" />
+                      Versions
+                    </Button>
+                    <Badge variant={status.consecutiveFailures > 0 ? "destructive" : "default"}>
+                      {status.consecutiveFailures > 0 ? `Failing (${status.consecutiveFailures})` : status.enabled ? "Active" : "Paused"}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCheckNow(status)}
+                      disabled={checkingProjectId === status.projectId}
+                    >
+                      <RefreshCw className={`h-4 w-4 mr-2 ${checkingProjectId === status.projectId ? "animate-spin" : ""}`} />
+                      Check now
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
+
+      {versionsProject && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Versions of {versionsProject.projectName || `Project ${versionsProject.projectId}`}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {regenerateJob && isRegenerating && (
+              <div className="p-3 bg-muted rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium">Regenerating code</span>
+                  <span className="text-sm">{regenerateJob.progressPercentage}%</span>
+                </div>
+                <div className="w-full bg-background rounded-full h-2">
+                  <div
+                    className="bg-primary h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${regenerateJob.progressPercentage}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No versions captured yet</p>
+            ) : (
+              versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                  <div>
+                    <p className="font-medium">{version.versionName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Captured {formatRelative(version.createdAt, "at an unknown time")}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRegenerate(version)}
+                    disabled={isRegenerating}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Regenerate code
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -28,8 +28,11 @@ export function useJobPolling(jobId: number | null, onComplete?: (job: Processin
     }
   }, [jobId, onComplete, handleError]);
 
+  // A job that already completed or failed is not polled again while its id is still set
+  const isFinished = job?.id === jobId && job?.status !== 'processing';
+
   useEffect(() => {
-    if (jobId && !isPolling) {
+    if (jobId && !isPolling && !isFinished) {
       setIsPolling(true);
       pollJob();
       const interval = setInterval(pollJob, 2000);
@@ -39,7 +42,7 @@ export function useJobPolling(jobId: number | null, onComplete?: (job: Processin
         setIsPolling(false);
       };
     }
-  }, [jobId, isPolling, pollJob]);
+  }, [jobId, isPolling, isFinished, pollJob]);
 
   return {
     job,
@@ -1,3 +1,5 @@
+import { FigmaService } from '@/services/figmaService';
+
 export interface FigmaConverterOptions {
   extractDesignTokens: boolean;
   generateVariants: boolean;
@@ -86,18 +88,9 @@ export class FigmaConverter {
     }
   }
 
+  // Goes through the server so requests share its retry and rate-limit handling
   async fetchFigmaFile(fileId: string, token: string): Promise<any> {
-    const response = await fetch(`https://api.figma.com/v1/files/${fileId}`, {
-      headers: {
-        'X-Figma-Token': token,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Figma API error: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
+    return FigmaService.fetchFile(fileId, token);
   }
 
   extractComponentsFromFigmaData(figmaData: any): any[] {
@@ -168,39 +161,49 @@ export class FigmaConverter {
   generateReactComponent(component: any, designTokens: any): any {
     const componentName = component.name.replace(/[^a-zA-Z0-9]/g, '').replace(/^\w/, (c: string) => c.toUpperCase());
     
+    const variantsName = `${componentName.charAt(0).toLowerCase()}${componentName.slice(1)}Variants`;
+
     const reactCode = `import React from "react";
+import { cva, type VariantProps } from "class-variance-authority";
 import { cn } from "@/lib/utils";
 
-interface ${componentName}Props {
+const ${variantsName} = cva(
+  "inline-flex items-center justify-center transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2",
+  {
+    variants: {
+      variant: {
+        default: "",
+        primary: "bg-primary text-primary-foreground hover:bg-primary/90",
+        secondary: "bg-secondary text-secondary-foreground hover:bg-secondary/80",
+      },
+      size: {
+        sm: "h-8 px-3 text-sm",
+        md: "h-10 px-4",
+        lg: "h-12 px-6 text-lg",
+      },
+    },
+    defaultVariants: {
+      variant: "default",
+      size: "md",
+    },
+  }
+);
+
+interface ${componentName}Props extends VariantProps<typeof ${variantsName}> {
   className?: string;
   children?: React.ReactNode;
-  variant?: "default" | "primary" | "secondary";
-  size?: "sm" | "md" | "lg";
 }
 
 const ${componentName}: React.FC<${componentName}Props> = ({ 
   className,
   children,
-  variant = "default",
-  size = "md",
+  variant,
+  size,
   ...props 
 }) => {
   return (
     <div 
-      className={cn(
-        "inline-flex items-center justify-center",
-        "transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2",
-        {
-          "bg-primary text-primary-foreground hover:bg-primary/90": variant === "primary",
-          "bg-secondary text-secondary-foreground hover:bg-secondary/80": variant === "secondary",
-        },
-        {
-          "h-8 px-3 text-sm": size === "sm",
-          "h-10 px-4": size === "md",
-          "h-12 px-6 text-lg": size === "lg",
-        },
-        className
-      )} 
+      className={cn(${variantsName}({ variant, size }), className)} 
       {...props}
     >
       {children}
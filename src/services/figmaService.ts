@@ -28,6 +28,14 @@ export class FigmaService {
     return ApiService.post<FigmaExtractionResponse>('/figma/extract', { url, token, userId });
   }
 
+  static async importJson(data: Record<string, any>, fileName?: string, userId?: number): Promise<FigmaExtractionResponse> {
+    return ApiService.post<FigmaExtractionResponse>('/figma/import-json', { data, fileName, userId });
+  }
+
+  static async fetchFile(fileId: string, token: string, nodeId?: string): Promise<any> {
+    return ApiService.post<any>('/figma/file', { fileId, token, nodeId });
+  }
+
   static async extractColors(url: string, token: string): Promise<FigmaColorExtractionResponse> {
     return ApiService.post<FigmaColorExtractionResponse>('/figma/extract-colors', { url, token });
   }
@@ -0,0 +1,36 @@
+import { ApiService } from './apiService';
+
+export interface TrackingStatus {
+  id: number;
+  projectId: number;
+  projectName?: string | null;
+  intervalMinutes: number;
+  enabled: boolean;
+  lastModified: string | null;
+  lastCheckedAt: string | null;
+  lastChangedAt: string | null;
+  nextRunAt: string;
+  consecutiveFailures: number;
+  lastError: string | null;
+}
+
+export interface TrackingCheckResult extends TrackingStatus {
+  ok: boolean;
+  changed: boolean;
+  versionId?: number;
+  error?: string;
+}
+
+export class TrackingService {
+  static async getStatuses(): Promise<TrackingStatus[]> {
+    return ApiService.get<TrackingStatus[]>('/tracking');
+  }
+
+  static async trackProject(projectId: number, intervalMinutes: number, enabled = true): Promise<TrackingStatus> {
+    return ApiService.put<TrackingStatus>(`/projects/${projectId}/tracking`, { intervalMinutes, enabled });
+  }
+
+  static async checkNow(projectId: number): Promise<TrackingCheckResult> {
+    return ApiService.post<TrackingCheckResult>(`/projects/${projectId}/tracking/check`);
+  }
+}
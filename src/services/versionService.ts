@@ -0,0 +1,22 @@
+import { ApiService } from './apiService';
+
+export interface FigmaVersion {
+  id: number;
+  projectId: number;
+  versionName: string;
+  versionDescription: string | null;
+  figmaLastModified: string;
+  figmaVersionId: string | null;
+  thumbnailUrl: string | null;
+  createdAt: string;
+}
+
+export class VersionService {
+  static async getVersions(projectId: number): Promise<FigmaVersion[]> {
+    return ApiService.get<FigmaVersion[]>(`/versions/${projectId}`);
+  }
+
+  static async regenerate(versionId: number, generateIcons = false): Promise<{ jobId: number; status: string }> {
+    return ApiService.post(`/versions/${versionId}/regenerate`, { generateIcons });
+  }
+}